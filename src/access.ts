@@ -0,0 +1,98 @@
+// Read-only mode and per-tool allow/deny lists, so agents can be pointed at production safely
+
+// hide: blocked tools are not listed at all; refuse: they are listed but every call is rejected
+export type ReadOnlyBehavior = 'hide' | 'refuse';
+
+export interface ToolAccessPolicy {
+  readOnly: boolean;
+  behavior: ReadOnlyBehavior;
+  // Mutating tools that stay available in read-only mode
+  allowTools: string[];
+  // Tools that are blocked whether or not read-only mode is on
+  denyTools: string[];
+}
+
+export const DEFAULT_TOOL_ACCESS_POLICY: ToolAccessPolicy = {
+  readOnly: false,
+  behavior: 'refuse',
+  allowTools: [],
+  denyTools: [],
+};
+
+// Tools that create, change or delete data in Tray, or run connector operations with side effects
+export const MUTATING_TOOLS = new Set([
+  'call-connector',
+  'batch-call-connector',
+  'create-authentication',
+  'create-subscription',
+  'update-subscription',
+  'delete-subscription',
+  'delete-authentication',
+  'import-project',
+]);
+
+// Mutating tools whose changes cannot be undone
+export const DESTRUCTIVE_TOOLS = new Set([
+  'delete-subscription',
+  'delete-authentication',
+  // Imports replace the destination project's workflows
+  'import-project',
+]);
+
+let toolAccessPolicy: ToolAccessPolicy = { ...DEFAULT_TOOL_ACCESS_POLICY };
+
+export function configureToolAccess(overrides: Partial<ToolAccessPolicy>): ToolAccessPolicy {
+  toolAccessPolicy = {
+    readOnly: typeof overrides.readOnly === 'boolean' ? overrides.readOnly : DEFAULT_TOOL_ACCESS_POLICY.readOnly,
+    behavior: overrides.behavior === 'hide' || overrides.behavior === 'refuse' ? overrides.behavior : DEFAULT_TOOL_ACCESS_POLICY.behavior,
+    allowTools: Array.isArray(overrides.allowTools) ? overrides.allowTools : [],
+    denyTools: Array.isArray(overrides.denyTools) ? overrides.denyTools : [],
+  };
+  return toolAccessPolicy;
+}
+
+export function getToolAccessPolicy(): ToolAccessPolicy {
+  return toolAccessPolicy;
+}
+
+// Whether a tool may run under the current policy, and why not when it may not
+export function checkToolAccess(name: string): { allowed: boolean; reason?: string } {
+  if (toolAccessPolicy.denyTools.includes(name)) {
+    return { allowed: false, reason: 'it is on the server\'s tool deny list' };
+  }
+  if (toolAccessPolicy.readOnly && MUTATING_TOOLS.has(name) && !toolAccessPolicy.allowTools.includes(name)) {
+    return { allowed: false, reason: 'read-only mode is on and this tool changes data in Tray' };
+  }
+  return { allowed: true };
+}
+
+// Note appended to a tool's description so agents can see the mode before calling it
+export function describeToolAccess(name: string): string {
+  const { allowed, reason } = checkToolAccess(name);
+  if (!allowed) {
+    return ` [Disabled: ${reason}]`;
+  }
+  if (!toolAccessPolicy.readOnly) {
+    return '';
+  }
+  return MUTATING_TOOLS.has(name)
+    ? ' [Read-only mode is on, but this tool is explicitly allowed and can change data in Tray]'
+    : ' [Read-only mode is on; this tool only reads data]';
+}
+
+// MCP error result for a call to a blocked tool
+export function toolAccessRefusal(name: string, reason: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Tool ${name} is disabled on this server: ${reason}.\n\n` +
+          `Nothing was sent to Tray. ` +
+          (toolAccessPolicy.denyTools.includes(name)
+            ? `An administrator can remove it from --deny-tools (or TRAY_DENY_TOOLS and the config file).`
+            : `An administrator can allow it with --allow-tools ${name} (or TRAY_ALLOW_TOOLS), or turn off read-only mode.`),
+      },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,253 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { appendFile, mkdir, readFile, rename, rm, stat } from 'fs/promises';
+import { dirname, join } from 'path';
+import { getConfigDir } from './config.js';
+import type { TrayRegion } from './config.js';
+import { getHttpClient } from './http.js';
+import { REDACTED, isSecretKey, redactText, redactValue } from './redaction.js';
+
+// Where the audit log goes and when it is rotated
+export interface AuditPolicy {
+  enabled: boolean;
+  path: string;
+  // The log is rotated to <path>.1, <path>.2, ... once it would grow past this size
+  maxSizeBytes: number;
+  // Rotated files kept besides the current one
+  maxFiles: number;
+}
+
+export function getDefaultAuditLogPath(): string {
+  return join(getConfigDir(), 'audit.jsonl');
+}
+
+export const DEFAULT_AUDIT_POLICY: Omit<AuditPolicy, 'path'> = {
+  enabled: true,
+  maxSizeBytes: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+let auditPolicy: AuditPolicy = { ...DEFAULT_AUDIT_POLICY, path: getDefaultAuditLogPath() };
+
+export function configureAuditPolicy(overrides: Partial<AuditPolicy>): AuditPolicy {
+  const number = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+  auditPolicy = {
+    enabled: typeof overrides.enabled === 'boolean' ? overrides.enabled : DEFAULT_AUDIT_POLICY.enabled,
+    path: typeof overrides.path === 'string' && overrides.path.trim() !== '' ? overrides.path : getDefaultAuditLogPath(),
+    maxSizeBytes: number(overrides.maxSizeBytes, DEFAULT_AUDIT_POLICY.maxSizeBytes),
+    maxFiles: Math.floor(number(overrides.maxFiles, DEFAULT_AUDIT_POLICY.maxFiles)),
+  };
+  return auditPolicy;
+}
+
+export function getAuditPolicy(): AuditPolicy {
+  return auditPolicy;
+}
+
+// A Tray API request made while handling a tool call
+export interface AuditedRequest {
+  method: string;
+  path: string;
+  region: TrayRegion;
+  // Undefined when Tray could not be reached
+  status?: number;
+  latencyMs: number;
+  attempts: number;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  region?: TrayRegion;
+  outcome: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+  requests: AuditedRequest[];
+  // The HTTP client that made the call; absent on stdio
+  client?: string;
+}
+
+// Requests are attributed to the tool call that is running when they are made
+const currentToolCall = new AsyncLocalStorage<AuditedRequest[]>();
+
+export function recordTrayRequest(request: AuditedRequest): void {
+  currentToolCall.getStore()?.push({ ...request, path: redactText(request.path) });
+}
+
+// Large arguments such as project exports are summarized instead of copied into the log
+const MAX_ARGUMENT_LENGTH = 1000;
+
+export function sanitizeArguments(args: unknown): Record<string, unknown> {
+  if (!args || typeof args !== 'object') {
+    return {};
+  }
+
+  const sanitized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(args)) {
+    if (value === undefined) {
+      continue;
+    }
+    // Secret arguments are dropped whole, even objects such as create-authentication's credentials
+    if (isSecretKey(key)) {
+      sanitized[key] = REDACTED;
+      continue;
+    }
+    const serialized = JSON.stringify(value) || '';
+    sanitized[key] = serialized.length > MAX_ARGUMENT_LENGTH ? `[omitted: ${serialized.length} bytes]` : redactValue(value);
+  }
+  return sanitized;
+}
+
+// Appends are chained so entries keep their order and rotation never races a write
+let writeQueue: Promise<void> = Promise.resolve();
+
+async function rotateIfNeeded(incomingBytes: number): Promise<void> {
+  let size: number;
+  try {
+    size = (await stat(auditPolicy.path)).size;
+  } catch (error) {
+    return;
+  }
+  if (auditPolicy.maxSizeBytes === 0 || size + incomingBytes <= auditPolicy.maxSizeBytes) {
+    return;
+  }
+
+  if (auditPolicy.maxFiles === 0) {
+    await rm(auditPolicy.path, { force: true });
+    return;
+  }
+  await rm(`${auditPolicy.path}.${auditPolicy.maxFiles}`, { force: true });
+  for (let i = auditPolicy.maxFiles - 1; i >= 1; i--) {
+    await rename(`${auditPolicy.path}.${i}`, `${auditPolicy.path}.${i + 1}`).catch(() => undefined);
+  }
+  await rename(auditPolicy.path, `${auditPolicy.path}.1`);
+}
+
+export function writeAuditEntry(entry: AuditEntry): Promise<void> {
+  if (!auditPolicy.enabled) {
+    return Promise.resolve();
+  }
+
+  const line = `${JSON.stringify(entry)}\n`;
+  writeQueue = writeQueue
+    .then(async () => {
+      await mkdir(dirname(auditPolicy.path), { recursive: true });
+      await rotateIfNeeded(Buffer.byteLength(line));
+      await appendFile(auditPolicy.path, line, { mode: 0o600 });
+    })
+    .catch((error) => {
+      // A broken audit log must not break tool calls
+      console.error(`Could not write audit log ${auditPolicy.path}:`, error instanceof Error ? error.message : error);
+    });
+  return writeQueue;
+}
+
+// First line of a tool result's text, for the error field of an audit entry
+function errorSummary(result: CallToolResult): string | undefined {
+  const item = result.content.find((content) => content.type === 'text');
+  return item?.type === 'text' ? item.text.split('\n')[0].slice(0, 300) : undefined;
+}
+
+const REGIONS: TrayRegion[] = ['us', 'eu', 'apac'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Wrap a tool callback so every call is written to the audit log with the Tray requests it made
+export function withAudit<A extends unknown[], R extends CallToolResult>(
+  tool: string,
+  callback: (...args: A) => R | Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args: A) => {
+    const requests: AuditedRequest[] = [];
+    const started = Date.now();
+    // Tools with an input schema get (arguments, extra); the rest only get extra
+    const toolArguments: Record<string, unknown> | undefined = args.length > 1 && isRecord(args[0]) ? args[0] : undefined;
+    const client = getHttpClient();
+
+    const record = (outcome: AuditEntry['outcome'], error?: string) => {
+      const argumentRegion = REGIONS.find((region) => region === toolArguments?.region);
+      void writeAuditEntry({
+        timestamp: new Date(started).toISOString(),
+        tool,
+        arguments: sanitizeArguments(toolArguments),
+        region: requests[0]?.region || argumentRegion,
+        outcome,
+        ...(error && { error }),
+        durationMs: Date.now() - started,
+        requests,
+        ...(client && { client: client.name }),
+      });
+    };
+
+    try {
+      const result = await currentToolCall.run(requests, () => callback(...args));
+      const isError = result.isError === true;
+      record(isError ? 'error' : 'success', isError ? errorSummary(result) : undefined);
+      return result;
+    } catch (error) {
+      record('error', redactText(error instanceof Error ? error.message : String(error)));
+      throw error;
+    }
+  };
+}
+
+export interface AuditQuery {
+  tool?: string;
+  outcome?: AuditEntry['outcome'];
+  since?: string;
+  until?: string;
+  client?: string;
+  limit: number;
+}
+
+// Newest matching entries first, searching the current log and then the rotated ones
+export async function queryAuditLog(query: AuditQuery): Promise<{ entries: AuditEntry[]; scanned: number }> {
+  const since = query.since ? Date.parse(query.since) : undefined;
+  const until = query.until ? Date.parse(query.until) : undefined;
+  const entries: AuditEntry[] = [];
+  let scanned = 0;
+
+  const files = [auditPolicy.path];
+  for (let i = 1; i <= auditPolicy.maxFiles; i++) {
+    files.push(`${auditPolicy.path}.${i}`);
+  }
+
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(file, 'utf-8');
+    } catch (error) {
+      continue;
+    }
+
+    const lines = content.split('\n').filter(Boolean).reverse();
+    for (const line of lines) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        continue;
+      }
+      scanned++;
+
+      const time = Date.parse(entry.timestamp);
+      if (query.tool && entry.tool !== query.tool) continue;
+      if (query.outcome && entry.outcome !== query.outcome) continue;
+      if (query.client && entry.client !== query.client) continue;
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time > until) continue;
+
+      entries.push(entry);
+      if (entries.length >= query.limit) {
+        return { entries, scanned };
+      }
+    }
+  }
+
+  return { entries, scanned };
+}
@@ -0,0 +1,200 @@
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { TokenBucket } from './client.js';
+import { getConfigDir } from './config.js';
+
+// Bounded-concurrency runner for batch-call-connector, with an append-only checkpoint file
+
+export const MAX_BATCH_ITEMS = 10000;
+export const MAX_BATCH_CONCURRENCY = 20;
+
+// inputsFile and checkpointPath name files in this directory
+export function getBatchDir(): string {
+  return join(getConfigDir(), 'batches');
+}
+
+export interface BatchItemResult {
+  index: number;
+  // skipped: not started because the batch stopped early
+  status: 'success' | 'error' | 'skipped';
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  // Items started per second; 0 leaves only the client-wide rate limit
+  ratePerSecond: number;
+  // Stop starting items after this many failures; 0 never stops
+  maxFailures: number;
+  // JSONL file of finished items. Successful items in it are not run again.
+  checkpointPath?: string;
+  // Identifies the batch, so a checkpoint is never resumed with different inputs
+  jobKey: string;
+  signal?: AbortSignal;
+}
+
+export interface BatchRun {
+  results: BatchItemResult[];
+  // Successful items taken from the checkpoint instead of being run
+  resumed: number;
+  stopped?: 'max-failures' | 'cancelled' | 'checkpoint-failed';
+  // Why the checkpoint could not be written; items finished after that are not in it
+  checkpointError?: string;
+}
+
+type CheckpointLine =
+  | { type: 'batch'; jobKey: string; items: number; createdAt: string }
+  | ({ type: 'item' } & BatchItemResult);
+
+export function batchJobKey(job: unknown): string {
+  return createHash('sha256').update(JSON.stringify(job)).digest('hex');
+}
+
+// Inputs from a JSONL file: one JSON object per line, blank lines ignored
+export async function readJsonlInputs(path: string): Promise<Record<string, any>[]> {
+  const content = await readFile(path, 'utf-8');
+  const inputs: Record<string, any>[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let input: unknown;
+    try {
+      input = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${index + 1} of ${path} is not valid JSON`);
+    }
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error(`Line ${index + 1} of ${path} is not a JSON object`);
+    }
+    inputs.push(input as Record<string, any>);
+  });
+  return inputs;
+}
+
+// Finished items from an existing checkpoint, or a new checkpoint when there is none.
+// Later lines win, so an item retried after a failure is read as its latest result.
+async function openCheckpoint(path: string, jobKey: string, items: number): Promise<Map<number, BatchItemResult>> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    const header: CheckpointLine = { type: 'batch', jobKey, items, createdAt: new Date().toISOString() };
+    await mkdir(dirname(path), { recursive: true });
+    await appendFile(path, `${JSON.stringify(header)}\n`, { mode: 0o600 });
+    return new Map();
+  }
+
+  const finished = new Map<number, BatchItemResult>();
+  content.split('\n').filter(Boolean).forEach((line, index) => {
+    let entry: CheckpointLine;
+    try {
+      entry = JSON.parse(line);
+    } catch (error) {
+      // The last line may be cut short if the server stopped mid-write
+      return;
+    }
+    if (index === 0 && (entry.type !== 'batch' || entry.jobKey !== jobKey)) {
+      throw new Error(
+        `Checkpoint ${path} belongs to a different batch (other connector, operation, authentication or inputs). ` +
+        `Use a new checkpoint path, or delete the file to start over.`
+      );
+    }
+    if (entry.type === 'item') {
+      const { type, ...result } = entry;
+      finished.set(result.index, result);
+    }
+  });
+  return finished;
+}
+
+// Run every input through the worker, continuing past failures. Results are in input order.
+export async function runBatch<T>(
+  inputs: T[],
+  worker: (input: T, index: number) => Promise<unknown>,
+  options: BatchOptions
+): Promise<BatchRun> {
+  const results: Array<BatchItemResult | undefined> = new Array(inputs.length);
+  let resumed = 0;
+  if (options.checkpointPath) {
+    const finished = await openCheckpoint(options.checkpointPath, options.jobKey, inputs.length);
+    finished.forEach((result) => {
+      if (result.status === 'success' && result.index < inputs.length) {
+        results[result.index] = result;
+        resumed++;
+      }
+    });
+  }
+
+  const pending = inputs.map((_, index) => index).filter((index) => !results[index]);
+  const pacer = options.ratePerSecond > 0 ? new TokenBucket(options.ratePerSecond, 1) : undefined;
+  let next = 0;
+  let failures = 0;
+  let stopped: BatchRun['stopped'];
+
+  // Checkpoint appends are chained so concurrent items never interleave lines. Lines keep the
+  // status and error only: call outputs can hold secrets, and resuming does not need them.
+  // A failed write stops the batch, since later items could not be resumed.
+  let checkpointQueue: Promise<void> = Promise.resolve();
+  let checkpointError: string | undefined;
+  const checkpoint = ({ result: output, ...recorded }: BatchItemResult) => {
+    const line: CheckpointLine = { type: 'item', ...recorded };
+    checkpointQueue = checkpointQueue.then(async () => {
+      if (checkpointError) {
+        return;
+      }
+      try {
+        await appendFile(options.checkpointPath!, `${JSON.stringify(line)}\n`);
+      } catch (error) {
+        checkpointError = error instanceof Error ? error.message : String(error);
+        stopped = stopped || 'checkpoint-failed';
+      }
+    });
+    return checkpointQueue;
+  };
+
+  const runItems = async () => {
+    while (next < pending.length && !stopped) {
+      const index = pending[next++];
+      await pacer?.take();
+      if (options.signal?.aborted) {
+        stopped = 'cancelled';
+      }
+      if (stopped) {
+        break;
+      }
+
+      const started = Date.now();
+      let result: BatchItemResult;
+      try {
+        result = { index, status: 'success', result: await worker(inputs[index], index), durationMs: Date.now() - started };
+      } catch (error) {
+        failures++;
+        result = { index, status: 'error', error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - started };
+        if (options.maxFailures > 0 && failures >= options.maxFailures && !stopped) {
+          stopped = 'max-failures';
+        }
+      }
+      results[index] = result;
+      if (options.checkpointPath) {
+        await checkpoint(result);
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, MAX_BATCH_CONCURRENCY, pending.length));
+  await Promise.all(Array.from({ length: workers }, runItems));
+
+  return {
+    results: Array.from(results, (result, index) => result || { index, status: 'skipped', durationMs: 0 }),
+    resumed,
+    ...(stopped && { stopped }),
+    ...(checkpointError && { checkpointError }),
+  };
+}
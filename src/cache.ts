@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import { readFile, writeFile, mkdir, readdir, stat, rm } from 'fs/promises';
+import { dirname, join } from 'path';
+import { getConfigDir } from './config.js';
+import type { TrayRegion } from './config.js';
+import { makeConditionalTrayRequest } from './client.js';
+import { TrayApiError } from './errors.js';
+
+// How long cached catalog responses are served without asking Tray again
+export interface CachePolicy {
+  enabled: boolean;
+  ttlSeconds: number;
+}
+
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+  enabled: true,
+  ttlSeconds: 24 * 60 * 60,
+};
+
+let cachePolicy: CachePolicy = { ...DEFAULT_CACHE_POLICY };
+
+export function configureCachePolicy(overrides: Partial<CachePolicy>): CachePolicy {
+  cachePolicy = {
+    enabled: typeof overrides.enabled === 'boolean' ? overrides.enabled : DEFAULT_CACHE_POLICY.enabled,
+    ttlSeconds: typeof overrides.ttlSeconds === 'number' && Number.isFinite(overrides.ttlSeconds)
+      ? Math.max(0, overrides.ttlSeconds)
+      : DEFAULT_CACHE_POLICY.ttlSeconds,
+  };
+  return cachePolicy;
+}
+
+export function getCachePolicy(): CachePolicy {
+  return cachePolicy;
+}
+
+export function getCacheDir(): string {
+  return join(getConfigDir(), 'cache');
+}
+
+// Where a cached response came from:
+// cache       - fresh entry, no request made
+// revalidated - Tray answered 304 Not Modified to a conditional request
+// network     - downloaded (cache disabled, refresh requested, missing or changed entry)
+// stale       - Tray was unreachable, so an expired entry was served for offline browsing
+export type CacheSource = 'cache' | 'revalidated' | 'network' | 'stale';
+
+export interface CacheInfo {
+  source: CacheSource;
+  fetchedAt: string;
+}
+
+interface CacheEntry<T> {
+  url: string;
+  region: TrayRegion;
+  fetchedAt: string;
+  etag?: string;
+  lastModified?: string;
+  data: T;
+}
+
+// A path segment that cannot escape its directory; also used for snapshot paths
+export function safeSegment(segment: string): string {
+  const cleaned = segment.replace(/[^A-Za-z0-9._-]/g, '_');
+  return cleaned === '' || cleaned === '.' || cleaned === '..' ? '_' : cleaned;
+}
+
+// Entries live at <region>/<token hash>/<path segments>/<query hash>.json, so one connector
+// version maps to one directory. Catalogs can include private connectors, hence the token hash.
+function entryPath(url: string, token: string, region: TrayRegion): string {
+  const [path, query = ''] = url.split('?');
+  const tokenHash = createHash('sha256').update(token).digest('hex').slice(0, 16);
+  const queryHash = createHash('sha256').update(query).digest('hex').slice(0, 16);
+  const segments = path.split('/').filter(Boolean).map(safeSegment);
+  return join(getCacheDir(), region, tokenHash, ...segments, `${queryHash}.json`);
+}
+
+async function readEntry<T>(file: string): Promise<CacheEntry<T> | undefined> {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8'));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// A failed cache write should never fail the tool call
+async function writeEntry<T>(file: string, entry: CacheEntry<T>): Promise<void> {
+  try {
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(entry));
+  } catch (error) {
+    console.error(`Could not write cache entry ${file}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Tray could not be reached (or is failing), as opposed to rejecting the request
+function isOutage(error: unknown): boolean {
+  return error instanceof TrayApiError && (error.status === undefined || error.status >= 500);
+}
+
+// GET a catalog URL through the on-disk cache. Fresh entries are served directly, expired
+// ones are revalidated with their ETag, and stale ones are served when Tray is unreachable.
+export async function cachedTrayRequest<T>(
+  url: string,
+  token: string,
+  options: { region: TrayRegion; refresh?: boolean }
+): Promise<{ data: T; cache: CacheInfo }> {
+  const { region, refresh } = options;
+
+  if (!cachePolicy.enabled) {
+    const response = await makeConditionalTrayRequest<T>(url, token, { region });
+    return { data: response.data, cache: { source: 'network', fetchedAt: new Date().toISOString() } };
+  }
+
+  const file = entryPath(url, token, region);
+  const entry = await readEntry<T>(file);
+
+  if (entry && !refresh && Date.now() - Date.parse(entry.fetchedAt) < cachePolicy.ttlSeconds * 1000) {
+    return { data: entry.data, cache: { source: 'cache', fetchedAt: entry.fetchedAt } };
+  }
+
+  try {
+    const response = await makeConditionalTrayRequest<T>(url, token, {
+      region,
+      etag: refresh ? undefined : entry?.etag,
+      lastModified: refresh ? undefined : entry?.lastModified,
+    });
+    const fetchedAt = new Date().toISOString();
+
+    if (response.status === 304 && entry) {
+      await writeEntry(file, { ...entry, fetchedAt });
+      return { data: entry.data, cache: { source: 'revalidated', fetchedAt } };
+    }
+
+    await writeEntry(file, {
+      url,
+      region,
+      fetchedAt,
+      etag: response.etag,
+      lastModified: response.lastModified,
+      data: response.data,
+    });
+    return { data: response.data, cache: { source: 'network', fetchedAt } };
+  } catch (error) {
+    if (entry && isOutage(error)) {
+      console.error(`Serving stale cache entry for ${url} (fetched ${entry.fetchedAt}): Tray is unreachable`);
+      return { data: entry.data, cache: { source: 'stale', fetchedAt: entry.fetchedAt } };
+    }
+    throw error;
+  }
+}
+
+export interface CacheStats {
+  directory: string;
+  enabled: boolean;
+  ttlSeconds: number;
+  entries: number;
+  sizeBytes: number;
+  oldestFetchedAt?: string;
+  newestFetchedAt?: string;
+  regions: { region: string; entries: number; sizeBytes: number }[];
+}
+
+async function listEntryFiles(dir: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (error) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const name of names) {
+    const path = join(dir, name);
+    const info = await stat(path);
+    if (info.isDirectory()) {
+      files.push(...await listEntryFiles(path));
+    } else if (name.endsWith('.json')) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+// Summarize what is cached, optionally for a single region
+export async function getCacheStats(region?: TrayRegion): Promise<CacheStats> {
+  const regions = region ? [region] : ['us', 'eu', 'apac'];
+  const stats: CacheStats = {
+    directory: getCacheDir(),
+    enabled: cachePolicy.enabled,
+    ttlSeconds: cachePolicy.ttlSeconds,
+    entries: 0,
+    sizeBytes: 0,
+    regions: [],
+  };
+
+  for (const name of regions) {
+    const files = await listEntryFiles(join(getCacheDir(), name));
+    const regionStats = { region: name, entries: 0, sizeBytes: 0 };
+
+    for (const file of files) {
+      const entry = await readEntry<unknown>(file);
+      if (!entry) {
+        continue;
+      }
+      regionStats.entries++;
+      regionStats.sizeBytes += (await stat(file)).size;
+      if (!stats.oldestFetchedAt || entry.fetchedAt < stats.oldestFetchedAt) {
+        stats.oldestFetchedAt = entry.fetchedAt;
+      }
+      if (!stats.newestFetchedAt || entry.fetchedAt > stats.newestFetchedAt) {
+        stats.newestFetchedAt = entry.fetchedAt;
+      }
+    }
+
+    stats.entries += regionStats.entries;
+    stats.sizeBytes += regionStats.sizeBytes;
+    stats.regions.push(regionStats);
+  }
+
+  return stats;
+}
+
+// Delete cached entries for every region, one region, or one connector/trigger name in a region.
+// Returns the number of entries removed.
+export async function clearCache(options: { region?: TrayRegion; name?: string } = {}): Promise<number> {
+  const regions = options.region ? [options.region] : ['us', 'eu', 'apac'];
+  let removed = 0;
+
+  for (const region of regions) {
+    const regionDir = join(getCacheDir(), region);
+
+    if (!options.name) {
+      removed += (await listEntryFiles(regionDir)).length;
+      await rm(regionDir, { recursive: true, force: true });
+      continue;
+    }
+
+    let tokenDirs: string[];
+    try {
+      tokenDirs = await readdir(regionDir);
+    } catch (error) {
+      continue;
+    }
+    for (const tokenDir of tokenDirs) {
+      for (const kind of ['connectors', 'triggers']) {
+        const dir = join(regionDir, tokenDir, 'core', 'v1', kind, safeSegment(options.name));
+        removed += (await listEntryFiles(dir)).length;
+        await rm(dir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,360 @@
+// Non-interactive commands, for provisioning scripts, CI and Docker builds:
+//   tray-mcp-server config <set|get|unset|list|validate|path> [options]
+//   tray-mcp-server diagnose [options]
+
+import {
+  DEFAULT_PROFILE_NAME,
+  TrayConfig,
+  TrayProfile,
+  TrayRegion,
+  getArgValue,
+  getConfigPath,
+  getDefaultProfileName,
+  getVaultPath,
+  isVaultEnabled,
+  listProfiles,
+  readConfigFile,
+  writeConfigFile,
+} from './config.js';
+import { diagnoseToken, formatDiagnoses, listConfiguredTokens } from './diagnostics.js';
+import { maskToken } from './redaction.js';
+import { validateToken } from './setup.js';
+
+// Exit codes, so scripts can tell a typo from a bad token
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_INVALID = 3;
+export const EXIT_NOT_FOUND = 4;
+
+class UsageError extends Error {}
+
+const REGIONS: TrayRegion[] = ['us', 'eu', 'apac'];
+
+// Profile settings by their command line name; camelCase names are accepted as well
+const PROFILE_KEYS: Record<string, keyof TrayProfile> = {
+  'master-token': 'masterToken',
+  'user-token': 'userToken',
+  'region': 'region',
+  'workspace-id': 'workspaceId',
+};
+
+const TOKEN_KEYS: Array<keyof TrayProfile> = ['masterToken', 'userToken'];
+
+export const CONFIG_USAGE = `
+Usage:
+  tray-mcp-server config set [--profile <name>] [--master-token <token>] [--user-token <token>]
+                             [--region us|eu|apac] [--workspace-id <id>] [--default]
+  tray-mcp-server config set <key> <value> [--profile <name>]
+  tray-mcp-server config get <key> [--profile <name>] [--reveal]
+  tray-mcp-server config unset <key> [--profile <name>]
+  tray-mcp-server config list [--reveal]
+  tray-mcp-server config validate [--profile <name>]
+  tray-mcp-server config path
+
+Keys: master-token, user-token, region, workspace-id. Pass "-" as a value to read it
+from stdin, so tokens stay out of shell history. Add --json for machine-readable output.
+
+Exit codes: 0 ok, 1 error, 2 usage error, 3 validation failed, 4 key not set
+`;
+
+function profileKey(name: string | undefined): keyof TrayProfile {
+  const key = name && (PROFILE_KEYS[name] || Object.values(PROFILE_KEYS).find((value) => value === name));
+  if (!key) {
+    throw new UsageError(`Unknown key "${name ?? ''}". Use one of: ${Object.keys(PROFILE_KEYS).join(', ')}`);
+  }
+  return key;
+}
+
+function displayValue(key: keyof TrayProfile, value: string | undefined, reveal: boolean): string | undefined {
+  return value !== undefined && TOKEN_KEYS.includes(key) && !reveal ? maskToken(value) : value;
+}
+
+let stdinValue: Promise<string> | undefined;
+
+// "-" reads the value from stdin; only one value per command can come from there
+async function readValue(value: string, flag: string, stdinFlags: string[]): Promise<string> {
+  if (value !== '-') {
+    return value;
+  }
+  stdinFlags.push(flag);
+  if (stdinFlags.length > 1) {
+    throw new UsageError(`Only one value can be read from stdin (got ${stdinFlags.join(' and ')})`);
+  }
+  if (process.stdin.isTTY) {
+    throw new UsageError(`${flag} - reads from stdin, but stdin is a terminal. Pipe the value in instead.`);
+  }
+
+  stdinValue ??= new Promise<string>((resolve, reject) => {
+    let data = '';
+    process.stdin.setEncoding('utf-8');
+    process.stdin.on('data', (chunk) => (data += chunk));
+    process.stdin.on('end', () => resolve(data.trim()));
+    process.stdin.on('error', reject);
+  });
+  return stdinValue;
+}
+
+function selectedProfile(config: TrayConfig, args: string[]): string {
+  const name = getArgValue(args, '--profile') || getDefaultProfileName(config);
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+    throw new UsageError(`Invalid profile name "${name}". Use letters, numbers, ".", "_" and "-".`);
+  }
+  return name;
+}
+
+function output(json: boolean, data: unknown, text: string): void {
+  console.log(json ? JSON.stringify(data, null, 2) : text);
+}
+
+function isRegion(value: string): value is TrayRegion {
+  return (REGIONS as string[]).includes(value);
+}
+
+// Check a value read for a profile setting and add it to updates
+function setProfileValue(updates: Partial<TrayProfile>, key: keyof TrayProfile, value: string): void {
+  if (value === '') {
+    throw new UsageError('Values cannot be empty. Use "config unset" to remove a setting.');
+  }
+  if (key === 'region') {
+    if (!isRegion(value)) {
+      throw new UsageError(`Invalid region "${value}". Use one of: ${REGIONS.join(', ')}`);
+    }
+    updates.region = value;
+  } else {
+    updates[key] = value;
+  }
+}
+
+async function setCommand(args: string[], positional: string[], json: boolean): Promise<number> {
+  const config = await readConfigFile();
+  const profiles = listProfiles(config);
+  const name = selectedProfile(config, args);
+
+  const updates: Partial<TrayProfile> = {};
+  const stdinFlags: string[] = [];
+  if (positional.length > 0) {
+    if (positional.length !== 2) {
+      throw new UsageError('config set <key> <value> takes exactly one key and one value');
+    }
+    setProfileValue(updates, profileKey(positional[0]), await readValue(positional[1], positional[0], stdinFlags));
+  }
+  for (const [flag, key] of Object.entries(PROFILE_KEYS)) {
+    const value = getArgValue(args, `--${flag}`);
+    if (value !== undefined) {
+      setProfileValue(updates, key, await readValue(value, `--${flag}`, stdinFlags));
+    }
+  }
+
+  const makeDefault = args.includes('--default');
+  if (Object.keys(updates).length === 0 && !makeDefault) {
+    throw new UsageError('Nothing to set. Pass --master-token, --user-token, --region, --workspace-id or --default');
+  }
+
+  const isNew = !profiles[name];
+  const defaultProfile = makeDefault || Object.keys(profiles).length === 0 ? name : config.defaultProfile;
+  const path = await writeConfigFile({
+    ...config,
+    defaultProfile,
+    profiles: { ...profiles, [name]: { ...profiles[name], ...updates } },
+  });
+
+  const updated = Object.keys(updates).map((key) => Object.keys(PROFILE_KEYS).find((flag) => PROFILE_KEYS[flag] === key));
+  output(
+    json,
+    { profile: name, created: isNew, updated, defaultProfile: defaultProfile || DEFAULT_PROFILE_NAME, path, encrypted: isVaultEnabled() },
+    `${isNew ? 'Created' : 'Updated'} profile "${name}"` +
+      (updated.length > 0 ? ` (${updated.join(', ')})` : '') +
+      (makeDefault ? '; it is now the default profile' : '') +
+      ` in ${path}`
+  );
+  return EXIT_OK;
+}
+
+async function getCommand(args: string[], positional: string[], json: boolean): Promise<number> {
+  if (positional.length !== 1) {
+    throw new UsageError('config get takes exactly one key');
+  }
+  const key = profileKey(positional[0]);
+  const config = await readConfigFile();
+  const name = selectedProfile(config, args);
+  const profile = listProfiles(config)[name];
+  if (!profile) {
+    console.error(`Profile "${name}" does not exist`);
+    return EXIT_NOT_FOUND;
+  }
+
+  const value = displayValue(key, profile[key], args.includes('--reveal'));
+  if (value === undefined) {
+    if (json) {
+      output(json, { profile: name, key: positional[0], value: null }, '');
+    } else {
+      console.error(`${positional[0]} is not set in profile "${name}"`);
+    }
+    return EXIT_NOT_FOUND;
+  }
+  output(json, { profile: name, key: positional[0], value }, value);
+  return EXIT_OK;
+}
+
+async function unsetCommand(args: string[], positional: string[], json: boolean): Promise<number> {
+  if (positional.length !== 1) {
+    throw new UsageError('config unset takes exactly one key');
+  }
+  const key = profileKey(positional[0]);
+  const config = await readConfigFile();
+  const profiles = listProfiles(config);
+  const name = selectedProfile(config, args);
+  if (!profiles[name] || profiles[name][key] === undefined) {
+    output(json, { profile: name, key: positional[0], removed: false }, `${positional[0]} is not set in profile "${name}"`);
+    return EXIT_NOT_FOUND;
+  }
+
+  const { [key]: removed, ...profile } = profiles[name];
+  const path = await writeConfigFile({ ...config, profiles: { ...profiles, [name]: profile } });
+  output(json, { profile: name, key: positional[0], removed: true, path }, `Removed ${positional[0]} from profile "${name}"`);
+  return EXIT_OK;
+}
+
+async function listCommand(args: string[], json: boolean): Promise<number> {
+  const config = await readConfigFile();
+  const reveal = args.includes('--reveal');
+  const defaultProfile = getDefaultProfileName(config);
+
+  const profiles = Object.fromEntries(
+    Object.entries(listProfiles(config)).map(([name, profile]) => [
+      name,
+      {
+        region: profile.region || 'us',
+        workspaceId: profile.workspaceId ?? null,
+        masterToken: displayValue('masterToken', profile.masterToken, reveal) ?? null,
+        userToken: displayValue('userToken', profile.userToken, reveal) ?? null,
+      },
+    ])
+  );
+
+  let text = `Config: ${getConfigPath()}${isVaultEnabled() ? ` (tokens encrypted in ${getVaultPath()})` : ''}\n`;
+  if (Object.keys(profiles).length === 0) {
+    text += 'No profiles configured';
+  }
+  Object.entries(profiles).forEach(([name, profile]) => {
+    text += `\n${name}${name === defaultProfile ? ' (default)' : ''}\n`;
+    text += `  region:        ${profile.region}\n`;
+    text += `  workspace-id:  ${profile.workspaceId ?? '-'}\n`;
+    text += `  master-token:  ${profile.masterToken ?? '-'}\n`;
+    text += `  user-token:    ${profile.userToken ?? '-'}\n`;
+  });
+
+  output(json, { path: getConfigPath(), encrypted: isVaultEnabled(), defaultProfile, profiles }, text.trimEnd());
+  return EXIT_OK;
+}
+
+async function validateCommand(args: string[], json: boolean): Promise<number> {
+  const config = await readConfigFile();
+  const profiles = listProfiles(config);
+  const only = getArgValue(args, '--profile');
+  if (only && !profiles[only]) {
+    console.error(`Profile "${only}" does not exist`);
+    return EXIT_NOT_FOUND;
+  }
+
+  const results: Array<{ profile: string; check: string; ok: boolean; message: string }> = [];
+  for (const [name, profile] of Object.entries(profiles)) {
+    if (only && name !== only) continue;
+
+    const region = profile.region || 'us';
+    if (!REGIONS.includes(region)) {
+      results.push({ profile: name, check: 'region', ok: false, message: `Invalid region "${region}"` });
+      continue;
+    }
+    if (!profile.masterToken && !profile.userToken) {
+      results.push({ profile: name, check: 'tokens', ok: false, message: 'No master or user token configured' });
+    }
+    for (const key of TOKEN_KEYS) {
+      const token = profile[key] as string | undefined;
+      if (token) {
+        const ok = await validateToken(token, region);
+        const flag = key === 'masterToken' ? 'master-token' : 'user-token';
+        results.push({
+          profile: name,
+          check: flag,
+          ok,
+          message: ok ? `Accepted by Tray (${region.toUpperCase()})` : `Rejected by Tray or Tray unreachable (${region.toUpperCase()})`,
+        });
+      }
+    }
+  }
+
+  if (results.length === 0) {
+    results.push({ profile: '-', check: 'profiles', ok: false, message: 'No profiles configured' });
+  }
+
+  const valid = results.every((result) => result.ok);
+  output(
+    json,
+    { valid, results },
+    results.map((result) => `${result.ok ? '✓' : '✗'} ${result.profile} ${result.check}: ${result.message}`).join('\n')
+  );
+  return valid ? EXIT_OK : EXIT_INVALID;
+}
+
+// Run a config subcommand and return the process exit code
+export async function runConfigCommand(args: string[]): Promise<number> {
+  const [command, ...rest] = args;
+  const json = rest.includes('--json');
+
+  // Positional arguments are the ones that are neither flags nor flag values
+  const valueFlags = ['--profile', ...Object.keys(PROFILE_KEYS).map((flag) => `--${flag}`)];
+  const positional = rest.filter((arg, i) => !arg.startsWith('--') && !valueFlags.includes(rest[i - 1]));
+
+  try {
+    switch (command) {
+      case 'set':
+        return await setCommand(rest, positional, json);
+      case 'get':
+        return await getCommand(rest, positional, json);
+      case 'unset':
+        return await unsetCommand(rest, positional, json);
+      case 'list':
+        return await listCommand(rest, json);
+      case 'validate':
+        return await validateCommand(rest, json);
+      case 'path':
+        output(
+          json,
+          { config: getConfigPath(), vault: getVaultPath(), encrypted: isVaultEnabled() },
+          getConfigPath()
+        );
+        return EXIT_OK;
+      default:
+        throw new UsageError(command ? `Unknown config command "${command}"` : 'Missing config command');
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n${CONFIG_USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_ERROR;
+  }
+}
+
+// tray-mcp-server diagnose|whoami [--profile <name>] [--json]: probe every configured token in all regions
+export async function runDiagnoseCommand(args: string[]): Promise<number> {
+  try {
+    const config = await readConfigFile();
+    const profileName = getArgValue(args, '--profile');
+    if (profileName && !listProfiles(config)[profileName]) {
+      console.error(`Profile "${profileName}" does not exist`);
+      return EXIT_NOT_FOUND;
+    }
+
+    const diagnoses = await Promise.all(listConfiguredTokens(config, profileName).map(diagnoseToken));
+    const healthy = diagnoses.length > 0 && diagnoses.every((diagnosis) => diagnosis.health === 'ok');
+    output(args.includes('--json'), { healthy, tokens: diagnoses }, formatDiagnoses(diagnoses).trimEnd());
+    return healthy ? EXIT_OK : EXIT_INVALID;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_ERROR;
+  }
+}
@@ -0,0 +1,319 @@
+import { createHash } from 'crypto';
+import { recordTrayRequest } from './audit.js';
+import { redactText, redactValue } from './redaction.js';
+import type { TrayRegion } from './config.js';
+import { TrayApiError, parseTrayErrorBody } from './errors.js';
+
+// Constants for Tray API
+export const TRAY_API_BASE = "https://api.tray.io";
+export const TRAY_EU_API_BASE = "https://api.eu1.tray.io";
+export const TRAY_APAC_API_BASE = "https://api.ap1.tray.io";
+export const USER_AGENT = "tray-mcp-server/1.0.0";
+
+// Interface definitions for Tray API responses
+export interface TrayApiResponse<T = any> {
+  elements?: T[];
+  cursor?: string;
+  hasMore?: boolean;
+  totalCount?: number;
+  [key: string]: any;
+}
+
+// Timeout, retry and client-side rate limiting settings for Tray API requests
+export interface RequestPolicy {
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retry-After values above this are not waited for; the error is returned instead
+  maxRetryAfterMs: number;
+  // Sustained requests per second per region/token pair; 0 disables rate limiting
+  rateLimitPerSecond: number;
+  rateLimitBurst: number;
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  maxRetryAfterMs: 60000,
+  rateLimitPerSecond: 10,
+  rateLimitBurst: 20,
+};
+
+let requestPolicy: RequestPolicy = { ...DEFAULT_REQUEST_POLICY };
+
+export function configureRequestPolicy(overrides: Partial<RequestPolicy>): RequestPolicy {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
+  );
+  requestPolicy = { ...DEFAULT_REQUEST_POLICY, ...defined };
+  rateLimiters.clear();
+  return requestPolicy;
+}
+
+export function getRequestPolicy(): RequestPolicy {
+  return requestPolicy;
+}
+
+// TRAY_API_BASE_URL sends every region's requests to one host instead, such as a proxy or a
+// local mock server in tests
+export function getBaseUrl(region: TrayRegion): string {
+  const override = process.env.TRAY_API_BASE_URL;
+  if (override && override.trim() !== "") return override.trim().replace(/\/+$/, "");
+  if (region === "eu") return TRAY_EU_API_BASE;
+  if (region === "apac") return TRAY_APAC_API_BASE;
+  return TRAY_API_BASE;
+}
+
+// Also paces batch-call-connector items
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSecond);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+}
+
+const rateLimiters = new Map<string, TokenBucket>();
+
+// Buckets are keyed by a hash so raw tokens are not kept as map keys
+async function acquireRateLimit(region: TrayRegion, token: string): Promise<void> {
+  if (requestPolicy.rateLimitPerSecond <= 0) {
+    return;
+  }
+
+  const key = `${region}:${createHash('sha256').update(token).digest('hex').slice(0, 16)}`;
+  let bucket = rateLimiters.get(key);
+  if (!bucket) {
+    bucket = new TokenBucket(requestPolicy.rateLimitPerSecond, Math.max(1, requestPolicy.rateLimitBurst));
+    rateLimiters.set(key, bucket);
+  }
+  await bucket.take();
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+// A rate-limited request was never processed, so it is safe to retry even when it is a
+// mutation. Any other failure is only retried for idempotent requests.
+function shouldRetry(error: TrayApiError, attempt: number, idempotent: boolean): boolean {
+  if (attempt >= requestPolicy.maxRetries || !error.retryable) {
+    return false;
+  }
+  return idempotent || error.status === 429;
+}
+
+// Exponential backoff with full jitter, unless the server said how long to wait
+export function retryDelay(error: TrayApiError, attempt: number): number | null {
+  if (error.retryAfterSeconds !== undefined) {
+    const retryAfterMs = error.retryAfterSeconds * 1000;
+    return retryAfterMs <= requestPolicy.maxRetryAfterMs ? retryAfterMs : null;
+  }
+  const ceiling = Math.min(requestPolicy.maxDelayMs, requestPolicy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Status and validators of a response, for callers that revalidate cached data
+export interface TrayResponseMeta<T> {
+  data: T;
+  status: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Options accepted by makeTrayRequest and makeConditionalTrayRequest
+export interface TrayRequestOptions {
+  method?: string;
+  body?: any;
+  region?: TrayRegion;
+  idempotent?: boolean;
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+async function sendTrayRequest<T>(
+  url: string,
+  token: string,
+  method: string,
+  body: any,
+  region: TrayRegion,
+  timeoutMs: number,
+  extraHeaders: Record<string, string> = {}
+): Promise<TrayResponseMeta<T>> {
+  const headers: Record<string, string> = {
+    "Authorization": `Bearer ${token}`,
+    "User-Agent": USER_AGENT,
+    "Accept": "application/json",
+    ...extraHeaders,
+  };
+
+  if (body && method !== "GET") {
+    headers["Content-Type"] = "application/json";
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${getBaseUrl(region)}${url}`, {
+      method,
+      headers,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined,
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+    throw new TrayApiError({
+      message: timedOut
+        ? `Request timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error),
+      method,
+      path: url,
+      region,
+    });
+  }
+
+  const text = await response.text();
+  const requestId = response.headers.get("x-request-id") || response.headers.get("x-tray-request-id") || undefined;
+  const meta = {
+    status: response.status,
+    etag: response.headers.get("etag") || undefined,
+    lastModified: response.headers.get("last-modified") || undefined,
+  };
+
+  // Only conditional requests get a 304, and the caller already holds the data
+  if (response.status === 304) {
+    return { ...meta, data: undefined as T };
+  }
+
+  if (!response.ok) {
+    const { code, message } = parseTrayErrorBody(text);
+    throw new TrayApiError({
+      status: response.status,
+      code,
+      message: message || response.statusText || `HTTP error ${response.status}`,
+      requestId,
+      method,
+      path: url,
+      region,
+      retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+    });
+  }
+
+  // DELETE and some mutations return no content
+  if (!text.trim()) {
+    return { ...meta, data: {} as T };
+  }
+
+  try {
+    return { ...meta, data: JSON.parse(text) as T };
+  } catch (error) {
+    throw new TrayApiError({
+      status: response.status,
+      message: `Tray returned a response that is not valid JSON: ${text.slice(0, 200)}`,
+      requestId,
+      method,
+      path: url,
+      region,
+    });
+  }
+}
+
+async function requestWithRetries<T>(
+  url: string,
+  token: string,
+  options: TrayRequestOptions
+): Promise<TrayResponseMeta<T>> {
+  const { method = "GET", body, region = "us", headers } = options;
+  const idempotent = options.idempotent ?? (method === "GET" || method === "HEAD");
+  const timeoutMs = options.timeoutMs ?? requestPolicy.timeoutMs;
+
+  const started = Date.now();
+  const audit = (status: number | undefined, attempts: number) => {
+    const { pathname, search } = new URL(url, getBaseUrl(region));
+    recordTrayRequest({ method, path: pathname + search, region, status, latencyMs: Date.now() - started, attempts });
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    await acquireRateLimit(region, token);
+
+    try {
+      const response = await sendTrayRequest<T>(url, token, method, body, region, timeoutMs, headers);
+      audit(response.status, attempt + 1);
+      return response;
+    } catch (error) {
+      if (!(error instanceof TrayApiError)) {
+        throw error;
+      }
+
+      const delay = shouldRetry(error, attempt, idempotent) ? retryDelay(error, attempt) : null;
+      if (delay === null) {
+        console.error("Error making Tray request:", redactValue(error.toJSON()));
+        audit(error.status, attempt + 1);
+        throw error;
+      }
+
+      console.error(
+        `Retrying ${method} ${redactText(url)} in ${delay}ms (attempt ${attempt + 1} of ${requestPolicy.maxRetries}): ` +
+        `${error.status !== undefined ? `HTTP ${error.status}` : error.message}`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// Helper function for making Tray API requests. Throws a TrayApiError on failure.
+// GET requests are retried on transient failures; other methods only when marked idempotent.
+export async function makeTrayRequest<T>(
+  url: string,
+  token: string,
+  options: TrayRequestOptions = {}
+): Promise<T> {
+  return (await requestWithRetries<T>(url, token, options)).data;
+}
+
+// GET that sends If-None-Match/If-Modified-Since. A 304 comes back as status 304 with no data.
+export async function makeConditionalTrayRequest<T>(
+  url: string,
+  token: string,
+  options: { region?: TrayRegion; etag?: string; lastModified?: string }
+): Promise<TrayResponseMeta<T>> {
+  const headers: Record<string, string> = {};
+  if (options.etag) {
+    headers["If-None-Match"] = options.etag;
+  }
+  if (options.lastModified) {
+    headers["If-Modified-Since"] = options.lastModified;
+  }
+  return requestWithRetries<T>(url, token, { region: options.region, headers });
+}
@@ -0,0 +1,356 @@
+import { readFile, mkdir, rm } from 'fs/promises';
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { homedir } from 'os';
+import { existsSync } from 'fs';
+import type { RequestPolicy } from './client.js';
+import type { CachePolicy } from './cache.js';
+import type { ToolAccessPolicy } from './access.js';
+import type { AuditPolicy } from './audit.js';
+import type { RedactionPolicy } from './redaction.js';
+import type { HttpTransportPolicy } from './http.js';
+import type { SnapshotPolicy } from './snapshots.js';
+import { VaultKeySource, decryptVault, encryptVault, readVaultKeySource, restrictPermissions, writePrivateFile } from './vault.js';
+
+export type TrayRegion = 'us' | 'eu' | 'apac';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+// A single account/region/workspace combination
+export interface TrayProfile {
+  masterToken?: string;
+  userToken?: string;
+  region?: TrayRegion;
+  workspaceId?: string;
+}
+
+// Shape of ~/.config/tray-mcp-server/config.json. Top-level token fields are the
+// legacy single-profile format and are read as the "default" profile.
+export interface TrayConfig extends TrayProfile {
+  defaultProfile?: string;
+  profiles?: Record<string, TrayProfile>;
+  requestPolicy?: Partial<RequestPolicy>;
+  cache?: Partial<CachePolicy>;
+  toolAccess?: Partial<ToolAccessPolicy>;
+  audit?: Partial<AuditPolicy>;
+  redaction?: Partial<RedactionPolicy>;
+  http?: Partial<HttpTransportPolicy>;
+  snapshots?: Partial<SnapshotPolicy>;
+}
+
+export function getConfigDir(): string {
+  return join(homedir(), '.config', 'tray-mcp-server');
+}
+
+// A file a tool argument names, resolved against `directory`. Anything that lands outside it,
+// through ".." or an absolute path, is refused: HTTP clients call tools too, and must not reach
+// other files on the server's machine.
+export function resolveWithin(directory: string, location: string): string {
+  const path = resolve(directory, location);
+  const within = relative(directory, path);
+  if (within === '' || within === '..' || within.startsWith(`..${sep}`) || isAbsolute(within)) {
+    throw new Error(`"${location}" is outside ${directory}; only files in that directory can be used`);
+  }
+  return path;
+}
+
+export function getConfigPath(): string {
+  return join(getConfigDir(), 'config.json');
+}
+
+// Encrypted tokens, stored next to config.json once --setup --encrypt has been run
+export function getVaultPath(): string {
+  return join(getConfigDir(), 'vault.json');
+}
+
+export function isVaultEnabled(): boolean {
+  return existsSync(getVaultPath());
+}
+
+// What the vault holds: only the tokens, so the rest of config.json stays readable
+interface VaultSecrets {
+  profiles: Record<string, Pick<TrayProfile, 'masterToken' | 'userToken'>>;
+}
+
+export async function readConfigFile(): Promise<TrayConfig> {
+  let config: TrayConfig = {};
+  try {
+    const configPath = getConfigPath();
+    if (existsSync(configPath)) {
+      if (await restrictPermissions(configPath)) {
+        console.error(`Restricted permissions of ${configPath} to 0600`);
+      }
+      const content = await readFile(configPath, 'utf-8');
+      config = JSON.parse(content);
+    }
+  } catch (error) {
+    // Config doesn't exist or is invalid, return empty config
+  }
+
+  // A vault that cannot be opened is an error, not a config without tokens
+  if (isVaultEnabled()) {
+    const secrets = await decryptVault<VaultSecrets>(getVaultPath());
+    const profiles = listProfiles(config);
+    for (const [name, tokens] of Object.entries(secrets.profiles || {})) {
+      profiles[name] = { ...profiles[name], ...tokens };
+    }
+    const { masterToken, userToken, region, workspaceId, ...settings } = config;
+    config = { ...settings, profiles };
+  }
+
+  return config;
+}
+
+// Write the config in profile form. Legacy top-level tokens are folded into the default
+// profile unless the caller passes the full set of profiles.
+// Tokens go to the vault when it is enabled (or `vault` names a key source), and stay in
+// config.json when it is not (or `vault` is false, which also removes the vault).
+export async function writeConfigFile(
+  config: TrayConfig,
+  options: { vault?: VaultKeySource | false } = {}
+): Promise<string> {
+  const configDir = getConfigDir();
+  if (!existsSync(configDir)) {
+    await mkdir(configDir, { recursive: true });
+  }
+
+  const { masterToken, userToken, region, workspaceId, ...settings } = config;
+  const normalized: TrayConfig = {
+    ...settings,
+    defaultProfile: config.defaultProfile,
+    profiles: config.profiles || listProfiles(config),
+  };
+
+  const vault = options.vault ?? (isVaultEnabled() ? await readVaultKeySource(getVaultPath()) : false);
+  if (vault) {
+    const secrets: VaultSecrets = { profiles: {} };
+    const profiles: Record<string, TrayProfile> = {};
+    for (const [name, { masterToken, userToken, ...profile }] of Object.entries(normalized.profiles || {})) {
+      secrets.profiles[name] = { masterToken, userToken };
+      profiles[name] = profile;
+    }
+    await encryptVault(getVaultPath(), secrets, vault);
+    normalized.profiles = profiles;
+  }
+
+  const configPath = getConfigPath();
+  await writePrivateFile(configPath, JSON.stringify(normalized, null, 2));
+  if (!vault && isVaultEnabled()) {
+    await rm(getVaultPath());
+  }
+  return configPath;
+}
+
+// Read the value of a "--name value" or "--name=value" command line option
+export function getArgValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index !== -1 && args[index + 1] && !args[index + 1].startsWith('--')) {
+    return args[index + 1];
+  }
+  const inline = args.find((arg) => arg.startsWith(`${name}=`));
+  return inline ? inline.slice(name.length + 1) : undefined;
+}
+
+export function hasTokens(profile: TrayProfile | undefined): boolean {
+  return !!(profile && (profile.masterToken || profile.userToken));
+}
+
+// All named profiles, including the legacy top-level profile when present
+export function listProfiles(config: TrayConfig): Record<string, TrayProfile> {
+  const profiles: Record<string, TrayProfile> = { ...(config.profiles || {}) };
+
+  const legacy: TrayProfile = {
+    masterToken: config.masterToken,
+    userToken: config.userToken,
+    region: config.region,
+    workspaceId: config.workspaceId,
+  };
+  if (hasTokens(legacy) && !profiles[DEFAULT_PROFILE_NAME]) {
+    profiles[DEFAULT_PROFILE_NAME] = legacy;
+  }
+
+  return profiles;
+}
+
+export function getDefaultProfileName(config: TrayConfig): string {
+  if (config.defaultProfile) {
+    return config.defaultProfile;
+  }
+  const names = Object.keys(listProfiles(config));
+  return names.includes(DEFAULT_PROFILE_NAME) || names.length === 0 ? DEFAULT_PROFILE_NAME : names[0];
+}
+
+export function getProfile(config: TrayConfig, name?: string): TrayProfile | undefined {
+  return listProfiles(config)[name || getDefaultProfileName(config)];
+}
+
+export function loadEnvironmentConfiguration(): TrayProfile {
+  const config: TrayProfile = {
+    masterToken: process.env.TRAY_MASTER_TOKEN,
+    userToken: process.env.TRAY_USER_TOKEN,
+    region: process.env.TRAY_REGION as TrayRegion | undefined,
+    workspaceId: process.env.TRAY_WORKSPACE_ID
+  };
+
+  // If no master token found, try region-specific tokens
+  if (!config.masterToken) {
+    if (process.env.TRAY_TOKEN_US) {
+      config.masterToken = process.env.TRAY_TOKEN_US;
+      config.region = config.region || 'us';
+    } else if (process.env.TRAY_TOKEN_EU) {
+      config.masterToken = process.env.TRAY_TOKEN_EU;
+      config.region = config.region || 'eu';
+    } else if (process.env.TRAY_TOKEN_APAC) {
+      config.masterToken = process.env.TRAY_TOKEN_APAC;
+      config.region = config.region || 'apac';
+    }
+  }
+
+  return config;
+}
+
+// Resolve the active profile: values from the config file win, environment variables fill the gaps
+export function mergeWithEnvironment(profile: TrayProfile | undefined): TrayProfile {
+  const envConfig = loadEnvironmentConfiguration();
+  return {
+    masterToken: profile?.masterToken || envConfig.masterToken,
+    userToken: profile?.userToken || envConfig.userToken,
+    region: profile?.region || envConfig.region,
+    workspaceId: profile?.workspaceId || envConfig.workspaceId,
+  };
+}
+
+// Request policy from the config file, overridden by TRAY_REQUEST_TIMEOUT_MS,
+// TRAY_MAX_RETRIES and TRAY_RATE_LIMIT_PER_SECOND
+export function loadRequestPolicyOverrides(config: TrayConfig): Partial<RequestPolicy> {
+  const fromEnv = (name: string): number | undefined => {
+    const value = process.env[name];
+    return value !== undefined && value.trim() !== '' ? Number(value) : undefined;
+  };
+
+  return {
+    ...(config.requestPolicy || {}),
+    ...(fromEnv('TRAY_REQUEST_TIMEOUT_MS') !== undefined && { timeoutMs: fromEnv('TRAY_REQUEST_TIMEOUT_MS') }),
+    ...(fromEnv('TRAY_MAX_RETRIES') !== undefined && { maxRetries: fromEnv('TRAY_MAX_RETRIES') }),
+    ...(fromEnv('TRAY_RATE_LIMIT_PER_SECOND') !== undefined && { rateLimitPerSecond: fromEnv('TRAY_RATE_LIMIT_PER_SECOND') }),
+  };
+}
+
+// Catalog cache settings from the config file, overridden by TRAY_CACHE_ENABLED and TRAY_CACHE_TTL_SECONDS
+export function loadCachePolicyOverrides(config: TrayConfig): Partial<CachePolicy> {
+  const enabled = process.env.TRAY_CACHE_ENABLED;
+  const ttlSeconds = process.env.TRAY_CACHE_TTL_SECONDS;
+
+  return {
+    ...(config.cache || {}),
+    ...(enabled !== undefined && enabled.trim() !== '' && { enabled: !['0', 'false', 'no', 'off'].includes(enabled.trim().toLowerCase()) }),
+    ...(ttlSeconds !== undefined && ttlSeconds.trim() !== '' && { ttlSeconds: Number(ttlSeconds) }),
+  };
+}
+
+// Audit log settings from the config file, overridden by TRAY_AUDIT_ENABLED and TRAY_AUDIT_LOG
+export function loadAuditOverrides(config: TrayConfig): Partial<AuditPolicy> {
+  const enabled = process.env.TRAY_AUDIT_ENABLED;
+  const path = process.env.TRAY_AUDIT_LOG;
+
+  return {
+    ...(config.audit || {}),
+    ...(enabled !== undefined && enabled.trim() !== '' && { enabled: !['0', 'false', 'no', 'off'].includes(enabled.trim().toLowerCase()) }),
+    ...(path !== undefined && path.trim() !== '' && { path: path.trim() }),
+  };
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  return value.split(',').map((name) => name.trim()).filter(Boolean);
+}
+
+// Read-only mode and tool allow/deny lists. The config file is overridden by TRAY_READ_ONLY,
+// TRAY_ALLOW_TOOLS and TRAY_DENY_TOOLS, which are overridden by --read-only[=hide|refuse],
+// --allow-tools and --deny-tools.
+export function loadToolAccessOverrides(config: TrayConfig, args: string[]): Partial<ToolAccessPolicy> {
+  const overrides: Partial<ToolAccessPolicy> = { ...(config.toolAccess || {}) };
+
+  const applyReadOnly = (value: string, source: string) => {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'hide' || normalized === 'refuse') {
+      overrides.readOnly = true;
+      overrides.behavior = normalized;
+    } else if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+      overrides.readOnly = true;
+    } else if (['0', 'false', 'no', 'off'].includes(normalized)) {
+      overrides.readOnly = false;
+    } else {
+      throw new Error(`Invalid ${source} value "${value}". Use true, false, hide or refuse.`);
+    }
+  };
+
+  if (process.env.TRAY_READ_ONLY !== undefined && process.env.TRAY_READ_ONLY.trim() !== '') {
+    applyReadOnly(process.env.TRAY_READ_ONLY, 'TRAY_READ_ONLY');
+  }
+  if (args.some((arg) => arg === '--read-only' || arg.startsWith('--read-only='))) {
+    applyReadOnly(getArgValue(args, '--read-only') || 'true', '--read-only');
+  }
+
+  const allowTools = parseList(getArgValue(args, '--allow-tools')) || parseList(process.env.TRAY_ALLOW_TOOLS);
+  if (allowTools) {
+    overrides.allowTools = allowTools;
+  }
+  const denyTools = parseList(getArgValue(args, '--deny-tools')) || parseList(process.env.TRAY_DENY_TOOLS);
+  if (denyTools) {
+    overrides.denyTools = denyTools;
+  }
+
+  return overrides;
+}
+
+// Secret redaction settings from the config file, overridden by TRAY_REDACTION_ENABLED and
+// TRAY_REDACTION_ALLOW_KEYS
+export function loadRedactionOverrides(config: TrayConfig): Partial<RedactionPolicy> {
+  const enabled = process.env.TRAY_REDACTION_ENABLED;
+  const allowKeys = parseList(process.env.TRAY_REDACTION_ALLOW_KEYS);
+
+  return {
+    ...(config.redaction || {}),
+    ...(enabled !== undefined && enabled.trim() !== '' && { enabled: !['0', 'false', 'no', 'off'].includes(enabled.trim().toLowerCase()) }),
+    ...(allowKeys && { allowKeys }),
+  };
+}
+
+// Snapshot store settings from the config file, overridden by TRAY_SNAPSHOT_DIR
+export function loadSnapshotOverrides(config: TrayConfig): Partial<SnapshotPolicy> {
+  const directory = process.env.TRAY_SNAPSHOT_DIR;
+
+  return {
+    ...(config.snapshots || {}),
+    ...(directory !== undefined && directory.trim() !== '' && { directory: directory.trim() }),
+  };
+}
+
+// HTTP transport settings from the config file, overridden by TRAY_HTTP_PORT and TRAY_HTTP_HOST,
+// which are overridden by --port and --host. TRAY_HTTP_AUTH_TOKEN adds a client named "default".
+export function loadHttpOverrides(config: TrayConfig, args: string[]): Partial<HttpTransportPolicy> {
+  const overrides: Partial<HttpTransportPolicy> = { ...(config.http || {}) };
+
+  const port = getArgValue(args, '--port') || process.env.TRAY_HTTP_PORT;
+  if (port !== undefined && port.trim() !== '') {
+    const parsed = Number(port);
+    if (!Number.isInteger(parsed) || parsed < 0 || parsed > 65535) {
+      throw new Error(`Invalid port "${port}". Use a number from 0 to 65535.`);
+    }
+    overrides.port = parsed;
+  }
+
+  const host = getArgValue(args, '--host') || process.env.TRAY_HTTP_HOST;
+  if (host !== undefined && host.trim() !== '') {
+    overrides.host = host.trim();
+  }
+
+  const authToken = process.env.TRAY_HTTP_AUTH_TOKEN;
+  if (authToken !== undefined && authToken.trim() !== '') {
+    overrides.clients = [...(overrides.clients || []), { name: 'default', token: authToken.trim() }];
+  }
+
+  return overrides;
+}
@@ -0,0 +1,81 @@
+import { createHash, randomBytes } from 'crypto';
+import type { TrayRegion } from './config.js';
+import { getHttpClient } from './http.js';
+
+// How long a destructive-operation preview stays valid
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  action: string;
+  resourceId: string;
+  region: TrayRegion;
+  caller: string;
+  expiresAt: number;
+}
+
+// Tokens only live in this server process and can be used once
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Identifies who makes a call: the Tray token it uses, hashed so it is never kept, and the HTTP
+// client that sent it. Over stdio there is no client, so only the token counts.
+export function callerFingerprint(trayToken: string): string {
+  return createHash('sha256').update(JSON.stringify({ client: getHttpClient()?.name ?? null, trayToken })).digest('hex');
+}
+
+// Issue a token that lets one later call by the same caller perform `action` on `resourceId` in `region`
+export function issueConfirmationToken(
+  action: string,
+  resourceId: string,
+  region: TrayRegion,
+  caller: string
+): { confirmationToken: string; expiresAt: string } {
+  const now = Date.now();
+  pendingConfirmations.forEach((pending, token) => {
+    if (pending.expiresAt <= now) {
+      pendingConfirmations.delete(token);
+    }
+  });
+
+  const confirmationToken = randomBytes(16).toString('hex');
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(confirmationToken, { action, resourceId, region, caller, expiresAt });
+  return { confirmationToken, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Use up a token. Returns why it was rejected, or undefined when it is valid for this call.
+export function redeemConfirmationToken(
+  confirmationToken: string,
+  action: string,
+  resourceId: string,
+  region: TrayRegion,
+  caller: string
+): string | undefined {
+  const pending = pendingConfirmations.get(confirmationToken);
+  if (!pending || pending.expiresAt <= Date.now()) {
+    pendingConfirmations.delete(confirmationToken);
+    return 'The confirmation token is unknown or has expired';
+  }
+  if (pending.caller !== caller) {
+    return 'The confirmation token was issued to another client or Tray token';
+  }
+  if (pending.action !== action || pending.resourceId !== resourceId || pending.region !== region) {
+    return `The confirmation token was issued for ${pending.action} of ${pending.resourceId} (region: ${pending.region}), not this call`;
+  }
+
+  pendingConfirmations.delete(confirmationToken);
+  return undefined;
+}
+
+// MCP error result for a rejected confirmation token
+export function confirmationErrorResult(tool: string, reason: string) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `${reason}. Nothing was deleted.\n\n` +
+          `Call ${tool} again without confirmationToken to review the preview and get a new token.`,
+      },
+    ],
+    isError: true,
+  };
+}
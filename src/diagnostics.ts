@@ -0,0 +1,175 @@
+import { TrayApiResponse, makeTrayRequest } from './client.js';
+import { TrayConfig, TrayRegion, listProfiles } from './config.js';
+import { TrayApiError } from './errors.js';
+import { maskToken } from './redaction.js';
+
+// Token health checks for the diagnose tool and CLI command
+
+const REGIONS: TrayRegion[] = ['us', 'eu', 'apac'];
+
+// Probes fail fast instead of going through the usual retries
+const PROBE_TIMEOUT_MS = 10000;
+
+// A token and where it was configured. Tray does not say whether a token is a master or a
+// user token, so the kind is the role it is configured for.
+export interface TokenSource {
+  sources: string[];
+  kind: 'master' | 'user' | 'unknown';
+  token: string;
+  region?: TrayRegion;
+}
+
+export interface RegionProbe {
+  region: TrayRegion;
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  workspaceCount?: number;
+  error?: string;
+}
+
+export type TokenHealth = 'ok' | 'wrong-region' | 'rejected' | 'unreachable' | 'error';
+
+export interface TokenDiagnosis {
+  sources: string[];
+  kind: TokenSource['kind'];
+  // Masked, and named so secret redaction leaves it alone
+  tokenPreview: string;
+  configuredRegion?: TrayRegion;
+  health: TokenHealth;
+  workingRegions: TrayRegion[];
+  probes: RegionProbe[];
+  workspaces: Array<{ id: string; name: string; type?: string; region: TrayRegion }>;
+  advice?: string;
+}
+
+// Every token in the config file and the environment, once per distinct token
+export function listConfiguredTokens(config: TrayConfig, profileName?: string): TokenSource[] {
+  const found: TokenSource[] = [];
+  const add = (token: string | undefined, source: string, kind: TokenSource['kind'], region?: TrayRegion) => {
+    if (!token) return;
+    const existing = found.find((entry) => entry.token === token);
+    if (existing) {
+      existing.sources.push(source);
+    } else {
+      found.push({ sources: [source], kind, token, region });
+    }
+  };
+
+  Object.entries(listProfiles(config)).forEach(([name, profile]) => {
+    if (profileName && name !== profileName) return;
+    add(profile.masterToken, `profile "${name}" master token`, 'master', profile.region || 'us');
+    add(profile.userToken, `profile "${name}" user token`, 'user', profile.region || 'us');
+  });
+
+  if (!profileName) {
+    const envRegion = process.env.TRAY_REGION as TrayRegion | undefined;
+    add(process.env.TRAY_MASTER_TOKEN, 'TRAY_MASTER_TOKEN', 'master', envRegion);
+    add(process.env.TRAY_USER_TOKEN, 'TRAY_USER_TOKEN', 'user', envRegion);
+    REGIONS.forEach((region) => add(process.env[`TRAY_TOKEN_${region.toUpperCase()}`], `TRAY_TOKEN_${region.toUpperCase()}`, 'master', region));
+  }
+
+  return found;
+}
+
+async function probeRegion(
+  token: string,
+  region: TrayRegion
+): Promise<{ probe: RegionProbe; workspaces: TokenDiagnosis['workspaces'] }> {
+  const started = Date.now();
+  try {
+    const data = await makeTrayRequest<TrayApiResponse<{ id: string; name: string; type?: string }>>(
+      '/core/v1/workspaces?limit=100',
+      token,
+      { region, idempotent: false, timeoutMs: PROBE_TIMEOUT_MS }
+    );
+    const workspaces = (data.elements || []).map(({ id, name, type }) => ({ id, name, type, region }));
+    return {
+      probe: { region, ok: true, status: 200, latencyMs: Date.now() - started, workspaceCount: workspaces.length },
+      workspaces,
+    };
+  } catch (error) {
+    return {
+      probe: {
+        region,
+        ok: false,
+        status: error instanceof TrayApiError ? error.status : undefined,
+        latencyMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      workspaces: [],
+    };
+  }
+}
+
+// Try the token against all three regional API bases at once
+export async function diagnoseToken(source: TokenSource): Promise<TokenDiagnosis> {
+  const results = await Promise.all(REGIONS.map((region) => probeRegion(source.token, region)));
+  const probes = results.map((result) => result.probe);
+  const workingRegions = probes.filter((probe) => probe.ok).map((probe) => probe.region);
+  const rejected = probes.filter((probe) => probe.status === 401 || probe.status === 403);
+
+  let health: TokenHealth;
+  let advice: string | undefined;
+  if (workingRegions.length > 0 && (!source.region || workingRegions.includes(source.region))) {
+    health = 'ok';
+  } else if (workingRegions.length > 0) {
+    health = 'wrong-region';
+    advice = `The token is configured for ${source.region!.toUpperCase()} but only works in ${workingRegions.map((region) => region.toUpperCase()).join(', ')}. Change the region of ${source.sources[0]}.`;
+  } else if (rejected.length === probes.length) {
+    health = 'rejected';
+    advice = 'Tray rejected the token in every region. It may be revoked or mistyped; create a new one and rotate it with: tray-mcp-server --setup --rotate-token';
+  } else if (probes.every((probe) => probe.status === undefined)) {
+    health = 'unreachable';
+    advice = 'Tray could not be reached in any region. Check the network, proxy and firewall.';
+  } else {
+    health = 'error';
+    advice = 'Tray returned unexpected errors; see the per-region results.';
+  }
+
+  return {
+    sources: source.sources,
+    kind: source.kind,
+    tokenPreview: maskToken(source.token),
+    configuredRegion: source.region,
+    health,
+    workingRegions,
+    probes,
+    workspaces: results.flatMap((result) => result.workspaces),
+    ...(advice && { advice }),
+  };
+}
+
+const HEALTH_LABELS: Record<TokenHealth, string> = {
+  'ok': '✅ OK',
+  'wrong-region': '⚠️ Wrong region',
+  'rejected': '❌ Rejected',
+  'unreachable': '❌ Tray unreachable',
+  'error': '❌ Error',
+};
+
+// Markdown report, shared by the tool and the CLI command
+export function formatDiagnoses(diagnoses: TokenDiagnosis[]): string {
+  if (diagnoses.length === 0) {
+    return 'No Tray API tokens are configured. Run: tray-mcp-server --setup, or set TRAY_TOKEN_US, TRAY_TOKEN_EU or TRAY_TOKEN_APAC';
+  }
+
+  let text = `# Token Diagnosis\n\n`;
+  diagnoses.forEach((diagnosis) => {
+    text += `## ${diagnosis.tokenPreview} — ${HEALTH_LABELS[diagnosis.health]}\n`;
+    text += `**Configured As:** ${diagnosis.kind} token (${diagnosis.sources.join(", ")})\n`;
+    text += `**Configured Region:** ${diagnosis.configuredRegion ? diagnosis.configuredRegion.toUpperCase() : "Any"}\n`;
+    text += `**Works In:** ${diagnosis.workingRegions.length > 0 ? diagnosis.workingRegions.map((region) => region.toUpperCase()).join(", ") : "No region"}\n`;
+    diagnosis.probes.forEach((probe) => {
+      text += `- ${probe.region.toUpperCase()}: ${probe.ok ? `✅ ${probe.workspaceCount} workspaces` : `❌ ${probe.status !== undefined ? `HTTP ${probe.status}` : probe.error}`} (${probe.latencyMs}ms)\n`;
+    });
+    if (diagnosis.workspaces.length > 0) {
+      text += `**Workspaces:** ${diagnosis.workspaces.map((workspace) => `${workspace.name} (${workspace.id}, ${workspace.region.toUpperCase()})`).join(", ")}\n`;
+    }
+    if (diagnosis.advice) {
+      text += `**Advice:** ${diagnosis.advice}\n`;
+    }
+    text += `\n`;
+  });
+  return text;
+}
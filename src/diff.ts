@@ -0,0 +1,363 @@
+// Semantic diff of two project exports for diff-project-versions. Workflows and steps are matched
+// by id first and then by name, since ids change when a project is imported into another workspace.
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+// The parts of a project export the diff reads
+export interface ExportStep {
+  id: string;
+  name: string;
+  connector?: { name: string; version: string; operation: string };
+  trigger?: { name: string; version: string; operation: string };
+  authentication?: { id: string; name: string };
+  input?: unknown;
+}
+
+export interface ExportWorkflow {
+  id: string;
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  tags?: string[];
+  steps?: ExportStep[];
+  triggers?: ExportStep[];
+  connections?: Array<{ source: { stepId: string; outputPort?: string }; target: { stepId: string; inputPort?: string } }>;
+  config?: Record<string, unknown>;
+}
+
+export interface DiffableExport {
+  workflows?: ExportWorkflow[];
+  authentications?: Array<{ id: string; name?: string }>;
+  config?: Record<string, unknown>;
+}
+
+export interface StepChange {
+  kind: ChangeKind;
+  id: string;
+  name: string;
+  matchedBy?: 'id' | 'name';
+  changes: string[];
+}
+
+export interface WorkflowChange {
+  kind: ChangeKind;
+  id: string;
+  name: string;
+  matchedBy?: 'id' | 'name';
+  changes: string[];
+  steps: StepChange[];
+  connections: { added: string[]; removed: string[] };
+}
+
+export interface KeyChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ProjectDiff {
+  from: string;
+  to: string;
+  summary: {
+    workflowsAdded: number;
+    workflowsRemoved: number;
+    workflowsChanged: number;
+    stepsAdded: number;
+    stepsRemoved: number;
+    stepsChanged: number;
+    connectorVersionChanges: number;
+    authenticationChanges: number;
+    configKeyChanges: number;
+  };
+  workflows: WorkflowChange[];
+  connectorVersions: Array<{ connector: string; from: string[]; to: string[] }>;
+  authentications: { added: string[]; removed: string[]; renamed: string[] };
+  // Keys only: config values can be secrets
+  config: KeyChanges;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Pair items by id, then pair what is left by name when the name is unique on both sides
+export function matchItems<T extends { id: string; name: string }>(
+  from: T[],
+  to: T[]
+): { pairs: Array<{ from: T; to: T; matchedBy: 'id' | 'name' }>; removed: T[]; added: T[] } {
+  const pairs: Array<{ from: T; to: T; matchedBy: 'id' | 'name' }> = [];
+  const unmatchedTo = new Set(to);
+  const unmatchedFrom: T[] = [];
+
+  from.forEach((item) => {
+    const match = to.find((candidate) => candidate.id === item.id && unmatchedTo.has(candidate));
+    if (match) {
+      pairs.push({ from: item, to: match, matchedBy: 'id' });
+      unmatchedTo.delete(match);
+    } else {
+      unmatchedFrom.push(item);
+    }
+  });
+
+  const removed: T[] = [];
+  unmatchedFrom.forEach((item) => {
+    const candidates = [...unmatchedTo].filter((candidate) => candidate.name === item.name);
+    const sameNameFrom = unmatchedFrom.filter((other) => other.name === item.name);
+    if (candidates.length === 1 && sameNameFrom.length === 1) {
+      pairs.push({ from: item, to: candidates[0], matchedBy: 'name' });
+      unmatchedTo.delete(candidates[0]);
+    } else {
+      removed.push(item);
+    }
+  });
+
+  return { pairs, removed, added: [...unmatchedTo] };
+}
+
+export function diffKeys(from: Record<string, unknown> = {}, to: Record<string, unknown> = {}): KeyChanges {
+  const fromKeys = Object.keys(from || {});
+  const toKeys = Object.keys(to || {});
+  return {
+    added: toKeys.filter((key) => !fromKeys.includes(key)),
+    removed: fromKeys.filter((key) => !toKeys.includes(key)),
+    changed: fromKeys.filter((key) => toKeys.includes(key) && !same(from[key], to[key])),
+  };
+}
+
+function describeKeyChanges(label: string, changes: KeyChanges): string[] {
+  const lines: string[] = [];
+  if (changes.added.length > 0) lines.push(`${label} added: ${changes.added.join(', ')}`);
+  if (changes.removed.length > 0) lines.push(`${label} removed: ${changes.removed.join(', ')}`);
+  if (changes.changed.length > 0) lines.push(`${label} changed: ${changes.changed.join(', ')}`);
+  return lines;
+}
+
+function stepKind(step: ExportStep): string {
+  const operation = step.connector || step.trigger;
+  return operation ? `${operation.name} v${operation.version} ${operation.operation}` : 'step';
+}
+
+function diffStep(from: ExportStep, to: ExportStep): string[] {
+  const changes: string[] = [];
+  if (from.name !== to.name) {
+    changes.push(`renamed from "${from.name}"`);
+  }
+
+  (['connector', 'trigger'] as const).forEach((type) => {
+    const before = from[type];
+    const after = to[type];
+    if (!before && !after) return;
+    if (!before || !after || before.name !== after.name) {
+      changes.push(`${type} ${before ? before.name : 'none'} → ${after ? after.name : 'none'}`);
+      return;
+    }
+    if (before.version !== after.version) {
+      changes.push(`${type} ${after.name} v${before.version} → v${after.version}`);
+    }
+    if (before.operation !== after.operation) {
+      changes.push(`operation ${before.operation} → ${after.operation}`);
+    }
+  });
+
+  if (!same(from.authentication?.id, to.authentication?.id) || !same(from.authentication?.name, to.authentication?.name)) {
+    const label = (auth?: { id: string; name: string }) => (auth ? `${auth.name} (${auth.id})` : 'none');
+    changes.push(`authentication ${label(from.authentication)} → ${label(to.authentication)}`);
+  }
+
+  const input = (value: unknown) => (value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {});
+  changes.push(...describeKeyChanges('input', diffKeys(input(from.input), input(to.input))));
+  return changes;
+}
+
+// Connections compared by step name, so they line up even when step ids differ
+function connectionLabels(workflow: ExportWorkflow): string[] {
+  const steps = [...(workflow.triggers || []), ...(workflow.steps || [])];
+  const name = (stepId: string) => steps.find((step) => step.id === stepId)?.name || stepId;
+  return (workflow.connections || []).map((connection) =>
+    `${name(connection.source.stepId)}${connection.source.outputPort ? `:${connection.source.outputPort}` : ''} → ` +
+    `${name(connection.target.stepId)}${connection.target.inputPort ? `:${connection.target.inputPort}` : ''}`
+  );
+}
+
+export function diffWorkflow(from: ExportWorkflow, to: ExportWorkflow, matchedBy: 'id' | 'name'): WorkflowChange {
+  const changes: string[] = [];
+  if (from.name !== to.name) changes.push(`renamed from "${from.name}"`);
+  if ((from.description || '') !== (to.description || '')) changes.push('description changed');
+  if (from.enabled !== to.enabled) changes.push(to.enabled ? 'enabled' : 'disabled');
+  if (!same([...(from.tags || [])].sort(), [...(to.tags || [])].sort())) {
+    changes.push(`tags ${(from.tags || []).join(', ') || 'none'} → ${(to.tags || []).join(', ') || 'none'}`);
+  }
+  changes.push(...describeKeyChanges('config', diffKeys(from.config, to.config)));
+
+  const { pairs, removed, added } = matchItems(
+    [...(from.triggers || []), ...(from.steps || [])],
+    [...(to.triggers || []), ...(to.steps || [])]
+  );
+  const steps: StepChange[] = [
+    ...added.map((step): StepChange => ({ kind: 'added', id: step.id, name: step.name, changes: [stepKind(step)] })),
+    ...removed.map((step): StepChange => ({ kind: 'removed', id: step.id, name: step.name, changes: [stepKind(step)] })),
+    ...pairs
+      .map((pair): StepChange => ({ kind: 'changed', id: pair.to.id, name: pair.to.name, matchedBy: pair.matchedBy, changes: diffStep(pair.from, pair.to) }))
+      .filter((step) => step.changes.length > 0),
+  ];
+
+  const fromConnections = connectionLabels(from);
+  const toConnections = connectionLabels(to);
+  const connections = {
+    added: toConnections.filter((connection) => !fromConnections.includes(connection)),
+    removed: fromConnections.filter((connection) => !toConnections.includes(connection)),
+  };
+
+  return { kind: 'changed', id: to.id, name: to.name, matchedBy, changes, steps, connections };
+}
+
+// Versions of each connector used by the steps of an export
+function connectorVersions(data: DiffableExport): Map<string, Set<string>> {
+  const versions = new Map<string, Set<string>>();
+  (data.workflows || []).forEach((workflow) => {
+    [...(workflow.triggers || []), ...(workflow.steps || [])].forEach((step) => {
+      const operation = step.connector || step.trigger;
+      if (operation) {
+        versions.set(operation.name, (versions.get(operation.name) || new Set()).add(String(operation.version)));
+      }
+    });
+  });
+  return versions;
+}
+
+export function diffProjectExports(from: DiffableExport, to: DiffableExport, labels: { from: string; to: string }): ProjectDiff {
+  const workflowMatch = matchItems(from.workflows || [], to.workflows || []);
+  const workflows: WorkflowChange[] = [
+    ...workflowMatch.added.map((workflow): WorkflowChange => ({
+      kind: 'added',
+      id: workflow.id,
+      name: workflow.name,
+      changes: [`${(workflow.steps || []).length} steps`],
+      steps: [],
+      connections: { added: [], removed: [] },
+    })),
+    ...workflowMatch.removed.map((workflow): WorkflowChange => ({
+      kind: 'removed',
+      id: workflow.id,
+      name: workflow.name,
+      changes: [],
+      steps: [],
+      connections: { added: [], removed: [] },
+    })),
+    ...workflowMatch.pairs
+      .map((pair) => diffWorkflow(pair.from, pair.to, pair.matchedBy))
+      .filter((workflow) => workflow.changes.length > 0 || workflow.steps.length > 0 ||
+        workflow.connections.added.length > 0 || workflow.connections.removed.length > 0),
+  ];
+
+  const fromVersions = connectorVersions(from);
+  const toVersions = connectorVersions(to);
+  const connectorVersionChanges = [...new Set([...fromVersions.keys(), ...toVersions.keys()])]
+    .map((connector) => ({
+      connector,
+      from: [...(fromVersions.get(connector) || [])].sort(),
+      to: [...(toVersions.get(connector) || [])].sort(),
+    }))
+    .filter((change) => change.from.length > 0 && change.to.length > 0 && !same(change.from, change.to));
+
+  const authMatch = matchItems(
+    (from.authentications || []).map((auth) => ({ id: auth.id, name: auth.name || auth.id })),
+    (to.authentications || []).map((auth) => ({ id: auth.id, name: auth.name || auth.id }))
+  );
+  const authentications = {
+    added: authMatch.added.map((auth) => `${auth.name} (${auth.id})`),
+    removed: authMatch.removed.map((auth) => `${auth.name} (${auth.id})`),
+    renamed: authMatch.pairs
+      .filter((pair) => pair.from.name !== pair.to.name)
+      .map((pair) => `${pair.from.name} → ${pair.to.name} (${pair.to.id})`),
+  };
+
+  const config = diffKeys(from.config, to.config);
+  const steps = workflows.flatMap((workflow) => workflow.steps);
+
+  return {
+    from: labels.from,
+    to: labels.to,
+    summary: {
+      workflowsAdded: workflowMatch.added.length,
+      workflowsRemoved: workflowMatch.removed.length,
+      workflowsChanged: workflows.filter((workflow) => workflow.kind === 'changed').length,
+      stepsAdded: steps.filter((step) => step.kind === 'added').length,
+      stepsRemoved: steps.filter((step) => step.kind === 'removed').length,
+      stepsChanged: steps.filter((step) => step.kind === 'changed').length,
+      connectorVersionChanges: connectorVersionChanges.length,
+      authenticationChanges: authentications.added.length + authentications.removed.length + authentications.renamed.length,
+      configKeyChanges: config.added.length + config.removed.length + config.changed.length,
+    },
+    workflows,
+    connectorVersions: connectorVersionChanges,
+    authentications,
+    config,
+  };
+}
+
+const KIND_ICONS: Record<ChangeKind, string> = { added: '➕', removed: '➖', changed: '✏️' };
+
+// Markdown changelog of a diff
+export function formatProjectDiff(diff: ProjectDiff): string {
+  const { summary } = diff;
+  let text = `# Changelog: ${diff.from} → ${diff.to}\n\n`;
+
+  const total = Object.values(summary).reduce((sum, count) => sum + count, 0);
+  if (total === 0) {
+    return `${text}No differences found.\n`;
+  }
+
+  text += `**Workflows:** ${summary.workflowsAdded} added, ${summary.workflowsRemoved} removed, ${summary.workflowsChanged} changed\n`;
+  text += `**Steps:** ${summary.stepsAdded} added, ${summary.stepsRemoved} removed, ${summary.stepsChanged} changed\n`;
+  text += `**Connector versions:** ${summary.connectorVersionChanges} | **Authentications:** ${summary.authenticationChanges} | **Config keys:** ${summary.configKeyChanges}\n\n`;
+
+  if (diff.workflows.length > 0) {
+    text += `## Workflows\n\n`;
+    diff.workflows.forEach((workflow) => {
+      text += `### ${KIND_ICONS[workflow.kind]} ${workflow.name} (${workflow.id})${workflow.kind === 'changed' ? '' : ` — ${workflow.kind}`}\n`;
+      if (workflow.matchedBy === 'name') {
+        text += `_Matched by name; the workflow id differs between the versions._\n`;
+      }
+      workflow.changes.forEach((change) => {
+        text += `- ${change}\n`;
+      });
+      workflow.steps.forEach((step) => {
+        text += `- ${KIND_ICONS[step.kind]} Step **${step.name}**: ${step.changes.join('; ')}\n`;
+      });
+      workflow.connections.added.forEach((connection) => {
+        text += `- ➕ Connection ${connection}\n`;
+      });
+      workflow.connections.removed.forEach((connection) => {
+        text += `- ➖ Connection ${connection}\n`;
+      });
+      text += `\n`;
+    });
+  }
+
+  if (diff.connectorVersions.length > 0) {
+    text += `## Connector Versions\n\n`;
+    diff.connectorVersions.forEach((change) => {
+      text += `- ${change.connector}: ${change.from.join(', ')} → ${change.to.join(', ')}\n`;
+    });
+    text += `\n`;
+  }
+
+  if (summary.authenticationChanges > 0) {
+    text += `## Authentications\n\n`;
+    diff.authentications.added.forEach((auth) => { text += `- ➕ ${auth}\n`; });
+    diff.authentications.removed.forEach((auth) => { text += `- ➖ ${auth}\n`; });
+    diff.authentications.renamed.forEach((auth) => { text += `- ✏️ ${auth}\n`; });
+    text += `\n`;
+  }
+
+  if (summary.configKeyChanges > 0) {
+    text += `## Config Keys\n\n`;
+    diff.config.added.forEach((key) => { text += `- ➕ ${key}\n`; });
+    diff.config.removed.forEach((key) => { text += `- ➖ ${key}\n`; });
+    diff.config.changed.forEach((key) => { text += `- ✏️ ${key}\n`; });
+    text += `\n`;
+  }
+
+  return text;
+}
@@ -0,0 +1,142 @@
+import type { TrayRegion } from './config.js';
+import { redactText } from './redaction.js';
+
+// HTTP statuses worth retrying: timeouts, rate limiting and transient server errors
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface TrayApiErrorDetails {
+  status?: number;
+  code?: string;
+  message: string;
+  requestId?: string;
+  method: string;
+  path: string;
+  region: TrayRegion;
+  retryAfterSeconds?: number;
+}
+
+// Structured failure from a Tray API request. `status` is undefined for network errors.
+export class TrayApiError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly method: string;
+  readonly path: string;
+  readonly region: TrayRegion;
+  readonly retryable: boolean;
+  readonly retryAfterSeconds?: number;
+
+  constructor(details: TrayApiErrorDetails) {
+    super(details.message);
+    this.name = 'TrayApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.method = details.method;
+    this.path = details.path;
+    this.region = details.region;
+    this.retryAfterSeconds = details.retryAfterSeconds;
+    this.retryable = details.status === undefined || RETRYABLE_STATUSES.has(details.status);
+  }
+
+  // Suggest what the caller should change to make the request succeed
+  get hint(): string {
+    switch (this.status) {
+      case undefined:
+        return `Could not reach the Tray ${this.region.toUpperCase()} API. Check network connectivity and that "${this.region}" is the right region.`;
+      case 400:
+      case 422:
+        return 'Tray rejected the request payload. Check the input against the operation\'s input schema (see get-connector-operations) and any required IDs.';
+      case 401:
+        return `The token was rejected. It may be expired or revoked, or it may belong to a different region than "${this.region}". Check the region or update the token with tray-mcp-server --setup.`;
+      case 403:
+        return 'The token is not allowed to perform this action. Check whether this tool needs a master token or a user token, and that the authentication has the required scopes.';
+      case 404:
+        return `Nothing was found at ${this.path} in region "${this.region}". Check the IDs, names and versions, and that the resource lives in this region.`;
+      case 409:
+        return 'The request conflicts with the current state of the resource. Fetch the latest state and try again.';
+      case 429:
+        return this.retryAfterSeconds !== undefined
+          ? `Rate limited by Tray. Wait ${this.retryAfterSeconds}s before retrying.`
+          : 'Rate limited by Tray. Wait before retrying and reduce the request rate.';
+      default:
+        return this.status >= 500
+          ? 'Tray returned a server error. This is usually transient; retry shortly.'
+          : 'Review the error message and request parameters.';
+    }
+  }
+
+  toJSON() {
+    return {
+      status: this.status,
+      code: this.code,
+      message: this.message,
+      requestId: this.requestId,
+      method: this.method,
+      path: this.path,
+      region: this.region,
+      retryable: this.retryable,
+      retryAfterSeconds: this.retryAfterSeconds,
+      hint: this.hint,
+    };
+  }
+}
+
+// Pull the Tray error code and message out of an error response body
+export function parseTrayErrorBody(body: string): { code?: string; message?: string } {
+  try {
+    const parsed = JSON.parse(body);
+    const error = parsed.error && typeof parsed.error === 'object' ? parsed.error : parsed;
+    const firstError = Array.isArray(parsed.errors) ? parsed.errors[0] : undefined;
+    return {
+      code: error.code ?? error.errorCode ?? firstError?.code,
+      message: error.message ?? firstError?.message ?? (typeof parsed.error === 'string' ? parsed.error : undefined),
+    };
+  } catch (error) {
+    return { message: body.trim() || undefined };
+  }
+}
+
+// Build an MCP error result that tells the agent what failed and how to fix it
+export function trayErrorResult(error: unknown, summary: string) {
+  let text = `${summary}\n\n`;
+
+  if (error instanceof TrayApiError) {
+    text += `**Error:** ${error.status !== undefined ? `HTTP ${error.status}` : 'Network error'} — ${error.message}\n`;
+    if (error.code) {
+      text += `**Tray Error Code:** ${error.code}\n`;
+    }
+    text += `**Request:** ${error.method} ${error.path} (region: ${error.region})\n`;
+    if (error.requestId) {
+      text += `**Request ID:** ${error.requestId}\n`;
+    }
+    text += `**Retryable:** ${error.retryable ? 'Yes' : 'No'}\n`;
+    text += `**Hint:** ${error.hint}\n`;
+  } else {
+    text += `**Error:** ${error instanceof Error ? error.message : String(error)}\n`;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    structuredContent: {
+      error: error instanceof TrayApiError
+        ? error.toJSON()
+        : { message: error instanceof Error ? error.message : String(error) },
+    },
+    isError: true,
+  };
+}
+
+// Resource reads are answered with a JSON-RPC error, so fold the hint into the message
+export function trayResourceError(error: unknown, summary: string): Error {
+  if (error instanceof TrayApiError) {
+    const status = error.status !== undefined ? `HTTP ${error.status}` : 'Network error';
+    return new Error(redactText(`${summary}: ${status} — ${error.message}. ${error.hint}`));
+  }
+  return new Error(redactText(`${summary}: ${error instanceof Error ? error.message : String(error)}`));
+}
@@ -0,0 +1,182 @@
+// Build example call-connector inputs from an operation's JSON Schema
+
+// Deeper schemas are cut off so recursive $refs cannot loop forever
+const MAX_DEPTH = 8;
+
+// Describes one field of the generated input, keyed by its path in the example
+export interface ExampleField {
+  path: string;
+  type: string;
+  required: boolean;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  // True when the example holds a made-up value that must be replaced before calling
+  placeholder: boolean;
+  note?: string;
+}
+
+export interface OperationInputExample {
+  // Required fields only
+  minimal: Record<string, unknown>;
+  // Every documented field
+  full: Record<string, unknown>;
+  fields: ExampleField[];
+}
+
+type Schema = Record<string, any>;
+
+// "#" is the root schema itself; recursion through it stops at MAX_DEPTH
+function resolveRef(schema: Schema, root: Schema): Schema {
+  if (typeof schema.$ref !== 'string' || (schema.$ref !== '#' && !schema.$ref.startsWith('#/'))) {
+    return schema;
+  }
+  const target = schema.$ref
+    .slice(2)
+    .split('/')
+    .filter((segment: string) => segment !== '')
+    .reduce<any>((node, segment) => node?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+  return target && typeof target === 'object' ? { ...target, ...schema, $ref: undefined } : schema;
+}
+
+// Flatten allOf and pick the first oneOf/anyOf branch, remembering how many there were
+function normalize(schema: Schema, root: Schema): { schema: Schema; note?: string } {
+  let current = resolveRef(schema, root);
+  let note: string | undefined;
+
+  if (Array.isArray(current.allOf)) {
+    current = current.allOf.reduce((merged: Schema, part: Schema) => {
+      const resolved = resolveRef(part, root);
+      return {
+        ...merged,
+        ...resolved,
+        properties: { ...(merged.properties || {}), ...(resolved.properties || {}) },
+        required: [...(merged.required || []), ...(resolved.required || [])],
+      };
+    }, { ...current, allOf: undefined });
+  }
+
+  const alternatives = current.oneOf || current.anyOf;
+  if (Array.isArray(alternatives) && alternatives.length > 0) {
+    const chosen = resolveRef(alternatives[0], root);
+    const label = (option: Schema, i: number) => option.title || option.type || `option ${i + 1}`;
+    note = `One of ${alternatives.length} alternatives (${alternatives.map((option: Schema, i: number) => label(resolveRef(option, root), i)).join(', ')}); the example uses the first`;
+    current = { ...current, oneOf: undefined, anyOf: undefined, ...chosen };
+  }
+
+  return { schema: current, note };
+}
+
+function schemaType(schema: Schema): string {
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') || schema.type[0] : schema.type;
+  if (type) return type;
+  if (schema.properties) return 'object';
+  if (schema.items) return 'array';
+  return 'any';
+}
+
+// "input.labels[0]" is named "labels item"
+function fieldName(path: string): string {
+  const match = path.match(/([^.[\]]+)((?:\[\d+\])*)$/);
+  if (!match) return 'value';
+  return match[2] ? `${match[1]} item` : match[1];
+}
+
+// A value for a leaf field and whether it is made up
+function leafValue(schema: Schema, type: string, path: string): { value: unknown; placeholder: boolean } {
+  if (schema.const !== undefined) return { value: schema.const, placeholder: false };
+  if (schema.default !== undefined) return { value: schema.default, placeholder: false };
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return { value: schema.enum[0], placeholder: false };
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return { value: schema.examples[0], placeholder: true };
+
+  switch (type) {
+    case 'string':
+      return { value: `<${fieldName(path)}: ${schema.format || 'string'}>`, placeholder: true };
+    case 'integer':
+      return { value: typeof schema.minimum === 'number' ? Math.ceil(schema.minimum) : 0, placeholder: true };
+    case 'number':
+      return { value: typeof schema.minimum === 'number' ? schema.minimum : 0, placeholder: true };
+    case 'boolean':
+      return { value: false, placeholder: true };
+    case 'null':
+      return { value: null, placeholder: false };
+    default:
+      return { value: `<${fieldName(path)}>`, placeholder: true };
+  }
+}
+
+function build(
+  rawSchema: Schema,
+  root: Schema,
+  path: string,
+  required: boolean,
+  minimal: boolean,
+  fields: ExampleField[] | undefined,
+  depth: number
+): unknown {
+  const { schema, note } = normalize(rawSchema || {}, root);
+  const type = schemaType(schema);
+
+  const record = (placeholder: boolean, extraNote?: string) => {
+    fields?.push({
+      path,
+      type: schema.format ? `${type} (${schema.format})` : type,
+      required,
+      description: schema.description || schema.title,
+      ...(Array.isArray(schema.enum) && { enum: schema.enum }),
+      ...(schema.default !== undefined && { default: schema.default }),
+      placeholder,
+      ...((note || extraNote) && { note: [note, extraNote].filter(Boolean).join('. ') }),
+    });
+  };
+
+  if (depth > MAX_DEPTH) {
+    record(true, 'Nested too deeply to expand');
+    return {};
+  }
+
+  if (type === 'object' && schema.default === undefined) {
+    if (path !== 'input') {
+      record(false);
+    }
+    const properties: Schema = schema.properties || {};
+    const requiredKeys = new Set<string>(Array.isArray(schema.required) ? schema.required : []);
+    const value: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(properties)) {
+      if (minimal && !requiredKeys.has(key)) {
+        continue;
+      }
+      value[key] = build(child as Schema, root, `${path}.${key}`, requiredKeys.has(key), minimal, fields, depth + 1);
+    }
+    return value;
+  }
+
+  if (type === 'array' && schema.default === undefined) {
+    record(false);
+    // The minimal example only includes an item when the schema requires one
+    if (minimal && !(schema.minItems > 0)) {
+      return [];
+    }
+    const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+    return [build(items || {}, root, `${path}[0]`, true, minimal, fields, depth + 1)];
+  }
+
+  const { value, placeholder } = leafValue(schema, type, path);
+  record(placeholder);
+  return value;
+}
+
+// Minimal and full example inputs for an operation, with a description of every field
+export function generateOperationInput(inputSchema: unknown): OperationInputExample {
+  const root = inputSchema && typeof inputSchema === 'object' ? inputSchema as Schema : {};
+  const fields: ExampleField[] = [];
+
+  const minimal = build(root, root, 'input', true, true, undefined, 0);
+  const full = build(root, root, 'input', true, false, fields, 0);
+
+  return {
+    minimal: minimal && typeof minimal === 'object' && !Array.isArray(minimal) ? minimal as Record<string, unknown> : {},
+    full: full && typeof full === 'object' && !Array.isArray(full) ? full as Record<string, unknown> : {},
+    fields,
+  };
+}
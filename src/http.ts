@@ -0,0 +1,250 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+// Streamable HTTP transport with an SSE fallback, so one server can be shared by remote clients
+
+// A client allowed to connect, identified by its bearer token
+export interface HttpClient {
+  name: string;
+  token: string;
+  // Profile whose Tray credentials the client's tool calls use. Clients without one share the
+  // server's active profile.
+  profile?: string;
+}
+
+export interface HttpTransportPolicy {
+  port: number;
+  host: string;
+  clients: HttpClient[];
+  // Largest request body accepted, in bytes. Project imports carry whole exports.
+  maxBodyBytes: number;
+}
+
+export const DEFAULT_HTTP_TRANSPORT_POLICY: HttpTransportPolicy = {
+  port: 3000,
+  host: '127.0.0.1',
+  clients: [],
+  maxBodyBytes: 50 * 1024 * 1024,
+};
+
+let httpTransportPolicy: HttpTransportPolicy = { ...DEFAULT_HTTP_TRANSPORT_POLICY };
+
+export function configureHttpTransport(overrides: Partial<HttpTransportPolicy>): HttpTransportPolicy {
+  const number = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : fallback;
+
+  httpTransportPolicy = {
+    port: number(overrides.port, DEFAULT_HTTP_TRANSPORT_POLICY.port),
+    host: typeof overrides.host === 'string' && overrides.host.trim() !== '' ? overrides.host : DEFAULT_HTTP_TRANSPORT_POLICY.host,
+    clients: Array.isArray(overrides.clients) ? overrides.clients : [],
+    maxBodyBytes: number(overrides.maxBodyBytes, DEFAULT_HTTP_TRANSPORT_POLICY.maxBodyBytes),
+  };
+  return httpTransportPolicy;
+}
+
+export function getHttpTransportPolicy(): HttpTransportPolicy {
+  return httpTransportPolicy;
+}
+
+// The client whose request is being handled; undefined on stdio
+const currentClient = new AsyncLocalStorage<HttpClient>();
+
+export function getHttpClient(): HttpClient | undefined {
+  return currentClient.getStore();
+}
+
+interface HttpSession<T> {
+  transport: T;
+  client: HttpClient;
+}
+
+// Hashing first gives equal-length buffers, as timingSafeEqual requires
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function authenticate(req: IncomingMessage): HttpClient | undefined {
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization || '');
+  if (!match) {
+    return undefined;
+  }
+  const presented = digest(match[1]);
+  return httpTransportPolicy.clients.find((client) => timingSafeEqual(digest(client.token), presented));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+// Errors in JSON-RPC form, which MCP clients know how to show
+function sendError(res: ServerResponse, status: number, message: string, headers?: Record<string, string>): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null }, headers);
+}
+
+class RequestBodyError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RequestBodyError';
+    this.status = status;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > httpTransportPolicy.maxBodyBytes) {
+      throw new RequestBodyError(413, `Request body is larger than ${httpTransportPolicy.maxBodyBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch (error) {
+    throw new RequestBodyError(400, 'Request body is not valid JSON');
+  }
+}
+
+// Serve MCP over HTTP. Every session gets its own server from createMcpServer, bound to the
+// client that opened it. Resolves with the listening server.
+export async function startHttpServer(createMcpServer: () => McpServer): Promise<Server> {
+  const sessions = new Map<string, HttpSession<StreamableHTTPServerTransport>>();
+  const sseSessions = new Map<string, HttpSession<SSEServerTransport>>();
+
+  // The session named by the request, if it belongs to the authenticated client
+  const findSession = <T>(
+    store: Map<string, HttpSession<T>>,
+    res: ServerResponse,
+    client: HttpClient,
+    sessionId: string | undefined
+  ): HttpSession<T> | undefined => {
+    const session = sessionId ? store.get(sessionId) : undefined;
+    if (!session) {
+      sendError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Missing session ID');
+      return undefined;
+    }
+    if (session.client !== client) {
+      sendError(res, 403, 'The session belongs to another client');
+      return undefined;
+    }
+    return session;
+  };
+
+  // Streamable HTTP: POST sends messages, GET opens the notification stream, DELETE ends the session
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse, client: HttpClient) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (!sessionId && isInitializeRequest(body)) {
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, client });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId) {
+            sessions.delete(transport.sessionId);
+          }
+        };
+        await createMcpServer().connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      const session = findSession(sessions, res, client, sessionId);
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const session = findSession(sessions, res, client, sessionId);
+      if (session) {
+        await session.transport.handleRequest(req, res);
+      }
+      return;
+    }
+
+    sendError(res, 405, 'Method not allowed', { Allow: 'GET, POST, DELETE' });
+  };
+
+  // The deprecated HTTP+SSE transport, for clients that predate Streamable HTTP
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, client: HttpClient, url: URL) => {
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseSessions.set(transport.sessionId, { transport, client });
+      res.on('close', () => sseSessions.delete(transport.sessionId));
+      await createMcpServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const body = await readJsonBody(req);
+      const session = findSession(sseSessions, res, client, url.searchParams.get('sessionId') || undefined);
+      if (session) {
+        await session.transport.handlePostMessage(req, res, body);
+      }
+      return;
+    }
+
+    sendError(res, 405, 'Method not allowed');
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    // Unauthenticated so load balancers can check the server is up, so it reveals nothing else
+    if (url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+    if (!['/mcp', '/sse', '/messages'].includes(url.pathname)) {
+      sendError(res, 404, 'Not found. MCP is served at /mcp, or /sse for the legacy SSE transport.');
+      return;
+    }
+
+    const client = authenticate(req);
+    if (!client) {
+      sendError(res, 401, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer realm="tray-mcp-server"' });
+      return;
+    }
+
+    try {
+      await currentClient.run(client, () =>
+        url.pathname === '/mcp' ? handleStreamableHttp(req, res, client) : handleSse(req, res, client, url)
+      );
+    } catch (error) {
+      const status = error instanceof RequestBodyError ? error.status : 500;
+      console.error(`HTTP ${req.method} ${url.pathname} failed:`, error instanceof Error ? error.message : error);
+      if (!res.headersSent) {
+        sendError(res, status, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(httpTransportPolicy.port, httpTransportPolicy.host, () => resolve());
+  });
+
+  const address = server.address();
+  const port = address && typeof address === 'object' ? address.port : httpTransportPolicy.port;
+  console.error(
+    `Tray MCP Server running on http://${httpTransportPolicy.host}:${port}/mcp (SSE fallback: /sse) ` +
+    `for clients: ${httpTransportPolicy.clients.map((client) => client.name).join(', ')}`
+  );
+  return server;
+}
@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { makeTrayRequest } from './client.js';
+import type { TrayRegion } from './config.js';
+
+// Project imports for import-project: the preview hashes that guard them, and polling until
+// Tray finishes
+
+// How long a preview from preview-project-import allows the matching import
+export const IMPORT_PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+export const IMPORT_POLL_INTERVAL_MS = 2000;
+export const MAX_IMPORT_WAIT_SECONDS = 600;
+
+// Request body shared by /imports/previews and /imports
+export interface ProjectImportRequest {
+  exportedProjectJson: unknown;
+  authenticationResolution: unknown[];
+  connectorMapping: unknown[];
+  serviceMapping: unknown[];
+  configOverride?: unknown;
+}
+
+export function importRequestBody(request: ProjectImportRequest): ProjectImportRequest {
+  return {
+    exportedProjectJson: request.exportedProjectJson,
+    authenticationResolution: request.authenticationResolution,
+    connectorMapping: request.connectorMapping,
+    serviceMapping: request.serviceMapping,
+    ...(request.configOverride ? { configOverride: request.configOverride } : {}),
+  };
+}
+
+// Hash of everything the import depends on, so a preview only unlocks the exact import it showed,
+// for the caller (callerFingerprint) that previewed it
+export function importPreviewHash(projectId: string, region: TrayRegion, body: ProjectImportRequest, caller: string): string {
+  return createHash('sha256').update(JSON.stringify({ projectId, region, caller, body: importRequestBody(body) })).digest('hex');
+}
+
+// Previews only live in this server process; the value is when each one expires
+const freshPreviews = new Map<string, number>();
+
+// Remember a successful preview so the matching import may run
+export function recordImportPreview(previewHash: string): { previewHash: string; expiresAt: string } {
+  const now = Date.now();
+  freshPreviews.forEach((expiresAt, hash) => {
+    if (expiresAt <= now) {
+      freshPreviews.delete(hash);
+    }
+  });
+
+  const expiresAt = now + IMPORT_PREVIEW_TTL_MS;
+  freshPreviews.set(previewHash, expiresAt);
+  return { previewHash, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Why the presented hash does not allow this import, or undefined when it does
+export function checkImportPreview(presented: string, expected: string): string | undefined {
+  if (presented !== expected) {
+    return 'The preview hash does not match this import. The export, mappings, config overrides, project, region, Tray token or client differ from the preview';
+  }
+  const expiresAt = freshPreviews.get(presented);
+  if (expiresAt === undefined || expiresAt <= Date.now()) {
+    freshPreviews.delete(presented);
+    return 'The preview has expired, was already used for an import, or was not made by this server';
+  }
+  return undefined;
+}
+
+// A preview unlocks one import
+export function consumeImportPreview(previewHash: string): void {
+  freshPreviews.delete(previewHash);
+}
+
+export type ImportState = 'running' | 'succeeded' | 'failed';
+
+const SUCCEEDED_STATUSES = ['SUCCEEDED', 'SUCCESS', 'SUCCESSFUL', 'COMPLETED', 'COMPLETE', 'DONE', 'FINISHED'];
+const FAILED_STATUSES = ['FAILED', 'FAILURE', 'ERROR', 'ERRORED', 'CANCELLED', 'CANCELED', 'ABORTED'];
+
+// Tray's status for an import, read loosely so differently worded statuses still end the wait
+export function importState(data: any): { status: string; state: ImportState } {
+  const status = String(data?.status ?? data?.state ?? 'UNKNOWN');
+  const normalized = status.toUpperCase();
+  if (SUCCEEDED_STATUSES.includes(normalized)) return { status, state: 'succeeded' };
+  if (FAILED_STATUSES.includes(normalized)) return { status, state: 'failed' };
+  return { status, state: 'running' };
+}
+
+export function importIdOf(data: any): string | undefined {
+  const id = data?.importId ?? data?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+// Poll an import until it finishes, the wait runs out or the call is cancelled
+export async function waitForImport(
+  projectId: string,
+  importId: string,
+  token: string,
+  options: { region: TrayRegion; maxWaitMs: number; intervalMs?: number; signal?: AbortSignal }
+): Promise<{ data: any; status: string; state: ImportState; polls: number }> {
+  const deadline = Date.now() + options.maxWaitMs;
+  const intervalMs = options.intervalMs ?? IMPORT_POLL_INTERVAL_MS;
+  let polls = 0;
+
+  for (;;) {
+    const data = await makeTrayRequest<any>(
+      `/core/v1/projects/${projectId}/imports/${importId}`,
+      token,
+      { region: options.region }
+    );
+    polls++;
+    const { status, state } = importState(data);
+    if (state !== 'running' || Date.now() + intervalMs > deadline || options.signal?.aborted) {
+      return { data, status, state, polls };
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
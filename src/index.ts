@@ -1,72 +1,206 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpServer,
+  ReadResourceCallback,
+  ReadResourceTemplateCallback,
+  RegisteredTool,
+  ResourceMetadata,
+  ResourceTemplate,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-import { homedir } from 'os';
-import { existsSync } from 'fs';
+import type { ListResourcesResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
 import { setupTrayMCP } from './setup.js';
+import { runConfigCommand, runDiagnoseCommand } from './cli.js';
+import {
+  DESTRUCTIVE_TOOLS,
+  MUTATING_TOOLS,
+  ToolAccessPolicy,
+  checkToolAccess,
+  configureToolAccess,
+  describeToolAccess,
+  getToolAccessPolicy,
+  toolAccessRefusal,
+} from './access.js';
+import {
+  DEFAULT_PROFILE_NAME,
+  TrayConfig,
+  TrayProfile,
+  TrayRegion,
+  getConfigPath,
+  getArgValue,
+  getDefaultProfileName,
+  getProfile,
+  hasTokens,
+  listProfiles,
+  loadAuditOverrides,
+  loadCachePolicyOverrides,
+  loadHttpOverrides,
+  loadRedactionOverrides,
+  loadRequestPolicyOverrides,
+  loadSnapshotOverrides,
+  loadToolAccessOverrides,
+  mergeWithEnvironment,
+  readConfigFile,
+  resolveWithin,
+} from './config.js';
+import { trayErrorResult, trayResourceError } from './errors.js';
+import { AuditEntry, configureAuditPolicy, getAuditPolicy, queryAuditLog, withAudit } from './audit.js';
+import { configureRedaction, redactText, withRedaction } from './redaction.js';
+import { TokenSource, diagnoseToken, formatDiagnoses, listConfiguredTokens } from './diagnostics.js';
+import { HttpTransportPolicy, configureHttpTransport, getHttpClient, startHttpServer } from './http.js';
+import { TrayApiResponse, configureRequestPolicy, makeTrayRequest } from './client.js';
+import { diffProjectExports, formatProjectDiff } from './diff.js';
+import { formatImportPreview, previewImportOffline } from './preview.js';
+import {
+  IMPORT_PREVIEW_TTL_MS,
+  MAX_IMPORT_WAIT_SECONDS,
+  checkImportPreview,
+  consumeImportPreview,
+  importIdOf,
+  importPreviewHash,
+  importRequestBody,
+  importState,
+  recordImportPreview,
+  waitForImport,
+} from './imports.js';
+import {
+  AuthenticationRequirement,
+  DEFAULT_MIN_CONFIDENCE,
+  TargetAuthentication,
+  formatImportMappingPlan,
+  planImportMappings,
+} from './mappings.js';
+import { SnapshotEntry, configureSnapshotStore, getSnapshotPolicy, listSnapshots, loadSnapshot, saveSnapshot, snapshotUri } from './snapshots.js';
+import { BatchRun, MAX_BATCH_CONCURRENCY, MAX_BATCH_ITEMS, batchJobKey, getBatchDir, readJsonlInputs, runBatch } from './batch.js';
+import { clearCache, configureCachePolicy, getCacheStats } from './cache.js';
+import { MAX_PAGINATED_ITEMS, TrayListResult, fetchTrayList, formatCacheInfo, formatPaginationInfo } from './pagination.js';
+import { Bm25Index } from './search.js';
+import { generateOperationInput } from './examples.js';
+import { callerFingerprint, confirmationErrorResult, issueConfirmationToken, redeemConfirmationToken } from './confirmation.js';
+import { InputValidationResult, formatValidationIssues, validateOperationInput } from './validation.js';
+import { jsonResource, paginationOf, toolResult } from './output.js';
+import {
+  auditEntrySchema,
+  batchItemResultSchema,
+  cacheInfoSchema,
+  importMappingPlanSchema,
+  inputValidationSchema,
+  offlineImportPreviewSchema,
+  paginationSchema,
+  projectDiffSchema,
+  snapshotSchema,
+  tokenDiagnosisSchema,
+  trayAuthenticationSchema,
+  trayConnectorOperationSchema,
+  trayConnectorSchema,
+  trayProjectExportSchema,
+  trayProjectSchema,
+  trayProjectVersionSchema,
+  trayTriggerSchema,
+  trayWorkspaceSchema,
+  usageSchema,
+  workflowDependencySchema,
+} from './schemas.js';
+
+// Which configured token a tool should fall back to when none is passed
+type TokenPreference = 'master' | 'user';
+
+// Configuration loaded at startup, used to resolve credentials for tool calls
+let globalConfig: TrayConfig = {};
+
+// Profile selected with --profile or TRAY_PROFILE, merged with environment variables
+let activeProfileName = DEFAULT_PROFILE_NAME;
+let activeProfile: TrayProfile = {};
+
+// Function to load configuration from file and select the active profile
+async function loadConfiguration(profileName?: string): Promise<TrayConfig> {
+  const config = await readConfigFile();
+
+  activeProfileName = profileName || getDefaultProfileName(config);
+  const profile = getProfile(config, activeProfileName);
+  if (profileName && !profile) {
+    throw new Error(`Profile "${profileName}" not found in ${getConfigPath()}`);
+  }
 
-// Constants for Tray API
-const TRAY_API_BASE = "https://api.tray.io";
-const TRAY_EU_API_BASE = "https://api.eu1.tray.io";
-const TRAY_APAC_API_BASE = "https://api.ap1.tray.io";
-const USER_AGENT = "tray-mcp-server/1.0.0";
-
-// Configuration interface
-interface TrayConfig {
-  masterToken?: string;
-  userToken?: string;
-  region?: 'us' | 'eu' | 'apac';
-  workspaceId?: string;
+  // Fall back to environment variables (supporting both old and new token names)
+  activeProfile = mergeWithEnvironment(profile);
+
+  return config;
 }
 
-// Function to load configuration from file
-async function loadConfiguration(): Promise<TrayConfig> {
-  try {
-    const homeDir = homedir();
-    const configPath = join(homeDir, '.config', 'tray-mcp-server', 'config.json');
-    
-    if (existsSync(configPath)) {
-      const content = await readFile(configPath, 'utf-8');
-      const config = JSON.parse(content);
-      return config;
-    }
-  } catch (error) {
-    // Config doesn't exist or is invalid, fall back to environment variables
+// Resolve the token and region for a tool call. Explicit arguments win, then the
+// selected profile, then the region-specific TRAY_TOKEN_* variables. HTTP clients mapped
+// to a profile only get that profile's tokens.
+function resolveCredentials(
+  token: string | undefined,
+  region: TrayRegion | undefined,
+  preference: TokenPreference,
+  profileName?: string
+): { token: string; region: TrayRegion } {
+  const client = getHttpClient();
+  if (client?.profile) {
+    if (profileName && profileName !== client.profile) {
+      throw new Error(`HTTP client "${client.name}" can only use profile "${client.profile}"`);
+    }
+    profileName = client.profile;
   }
-  
-  // Fall back to environment variables (supporting both old and new token names)
-  const config: TrayConfig = {
-    masterToken: process.env.TRAY_MASTER_TOKEN || process.env.TRAY_TOKEN_US || process.env.TRAY_TOKEN_EU || process.env.TRAY_TOKEN_APAC,
-    userToken: process.env.TRAY_USER_TOKEN,
-    region: (process.env.TRAY_REGION as 'us' | 'eu' | 'apac') || 'us',
-    workspaceId: process.env.TRAY_WORKSPACE_ID
-  };
-  
-  // If no master token found, try region-specific tokens
-  if (!config.masterToken) {
-    if (process.env.TRAY_TOKEN_US) {
-      config.masterToken = process.env.TRAY_TOKEN_US;
-      config.region = 'us';
-    } else if (process.env.TRAY_TOKEN_EU) {
-      config.masterToken = process.env.TRAY_TOKEN_EU;
-      config.region = 'eu';
-    } else if (process.env.TRAY_TOKEN_APAC) {
-      config.masterToken = process.env.TRAY_TOKEN_APAC;
-      config.region = 'apac';
-    }
+
+  let profile = activeProfile;
+  if (profileName && (profileName !== activeProfileName || client?.profile)) {
+    const namedProfile = getProfile(globalConfig, profileName);
+    if (!namedProfile) {
+      const available = Object.keys(listProfiles(globalConfig));
+      throw new Error(
+        `Unknown profile "${profileName}". ` +
+        `Available profiles: ${available.length > 0 ? available.join(", ") : "none"}`
+      );
+    }
+    profile = namedProfile;
   }
-  
-  return config;
+
+  const resolvedRegion = region || profile.region || 'us';
+
+  if (token) {
+    return { token, region: resolvedRegion };
+  }
+
+  const regionToken = client?.profile ? undefined : process.env[`TRAY_TOKEN_${resolvedRegion.toUpperCase()}`];
+  const configuredToken = preference === 'user'
+    ? profile.userToken || profile.masterToken
+    : profile.masterToken || profile.userToken;
+
+  // A token configured for one region is not valid in another, so only use the
+  // configured token when the call targets the profile's region
+  const configuredRegion = profile.region || 'us';
+  const resolvedToken = (resolvedRegion === configuredRegion ? configuredToken : undefined) || regionToken;
+
+  if (!resolvedToken) {
+    throw new Error(
+      `No Tray API token available for region "${resolvedRegion}". ` +
+      `Pass a token argument, set TRAY_TOKEN_${resolvedRegion.toUpperCase()}, or run: tray-mcp-server --setup`
+    );
+  }
+
+  return { token: resolvedToken, region: resolvedRegion };
 }
 
 // Check for command line arguments
 async function handleCommandLineArgs(): Promise<boolean> {
   const args = process.argv.slice(2);
   
+  if (args[0] === 'config') {
+    process.exitCode = await runConfigCommand(args.slice(1));
+    return true; // Exit after the config command
+  }
+
+  if (args[0] === 'diagnose' || args[0] === 'whoami') {
+    process.exitCode = await runDiagnoseCommand(args.slice(1));
+    return true;
+  }
+  
   if (args.includes('--setup')) {
     await setupTrayMCP();
     return true; // Exit after setup
@@ -78,16 +212,55 @@ Tray MCP Server - Model Context Protocol server for Tray.io
 
 Usage:
   tray-mcp-server [options]
+  tray-mcp-server config <set|get|unset|list|validate|path> [options]
+                     Manage the configuration without prompts (see: tray-mcp-server config)
+  tray-mcp-server diagnose [--profile <name>] [--json]
+                     Check every configured token in all regions (alias: whoami)
 
 Options:
-  --setup       Run interactive token setup
-  --help, -h    Show this help message
+  --setup            Run interactive setup (add, list, edit and remove profiles)
+  --setup --encrypt [--key-file <path>]
+                     Move the tokens into an encrypted vault, protected by a passphrase
+                     or by a key file (created when it does not exist)
+  --setup --decrypt  Store the tokens in plaintext config.json again
+  --setup --rotate-token [--profile <name>]
+                     Replace a profile's tokens, keeping its other settings
+  --profile <name>   Use a named configuration profile (default: the config's defaultProfile)
+  --read-only[=hide|refuse]
+                     Block tools that change data in Tray (call-connector,
+                     batch-call-connector, create-*, update-subscription, delete-*). "refuse" (default) lists them but
+                     rejects calls; "hide" removes them from the tool list
+  --allow-tools <a,b>
+                     Mutating tools to keep available in read-only mode
+  --deny-tools <a,b> Tools to block, whether or not read-only mode is on
+  --transport <stdio|http>
+                     Serve MCP over stdio (default) or HTTP: Streamable HTTP at /mcp,
+                     with an SSE fallback at /sse
+  --port <n>         HTTP port (default: 3000)
+  --host <address>   HTTP address to listen on (default: 127.0.0.1)
+  --help, -h         Show this help message
 
 Configuration:
   Tokens can be configured via:
   1. Interactive setup: tray-mcp-server --setup
   2. Environment variables: TRAY_TOKEN_US, TRAY_TOKEN_EU, TRAY_TOKEN_APAC
+     (TRAY_PROFILE selects a profile, like --profile)
+     (TRAY_READ_ONLY=true|hide|refuse, TRAY_ALLOW_TOOLS and TRAY_DENY_TOOLS
+      set read-only mode, like the flags above)
+     (TRAY_AUDIT_LOG sets the audit log file; TRAY_AUDIT_ENABLED=false turns it off)
+     (TRAY_REDACTION_ALLOW_KEYS lists keys that are never redacted from output)
+     (TRAY_VAULT_PASSPHRASE or TRAY_VAULT_KEY_FILE opens encrypted tokens)
+     (TRAY_SNAPSHOT_DIR sets where export-project-version saves exports)
+     (TRAY_API_BASE_URL sends all Tray API requests to another host, such as a proxy)
+     (TRAY_TRANSPORT, TRAY_HTTP_PORT and TRAY_HTTP_HOST set the transport, like the flags
+      above; TRAY_HTTP_AUTH_TOKEN is a bearer token HTTP clients can connect with)
   3. Configuration file: ~/.config/tray-mcp-server/config.json
+     (a "toolAccess" block sets read-only mode and the allow/deny lists;
+      an "audit" block sets the audit log path, maxSizeBytes and maxFiles;
+      a "redaction" block sets allowKeys and denyKeys for secret redaction;
+      a "snapshots" block sets the directory saved project exports go to;
+      an "http" block sets the port, host and clients, each with a name, a bearer
+      token and optionally the profile its tool calls use)
 
 For Claude Desktop MCP configuration:
   {
@@ -108,25 +281,115 @@ For more information, visit: https://github.com/guilherme-x/tray-mcp-server
   return false; // Continue with normal execution
 }
 
-// Create server instance
-const server = new McpServer({
-  name: "tray-mcp-server",
-  version: "1.0.0",
-  capabilities: {
-    resources: {},
-    tools: {},
+// Tools and resources are registered once and replayed onto every server instance: the
+// stdio server, or one server per HTTP session
+const toolRegistrations: Array<{ name: string; register: (server: McpServer) => RegisteredTool }> = [];
+const resourceRegistrations: Array<(server: McpServer) => void> = [];
+
+// Every call is written to the audit log, and secrets are redacted from what it returns
+function registerTool<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>(
+  name: string,
+  config: {
+    title?: string;
+    description?: string;
+    inputSchema?: InputArgs;
+    outputSchema?: OutputArgs;
+    annotations?: ToolAnnotations;
   },
-});
+  callback: ToolCallback<InputArgs>
+): void {
+  const wrapped = withAudit(name, withRedaction(callback)) as typeof callback;
+  toolRegistrations.push({ name, register: (server) => server.registerTool(name, config, wrapped) });
+}
 
-// Interface definitions for Tray API responses
-interface TrayApiResponse<T = any> {
-  elements?: T[];
-  cursor?: string;
-  hasMore?: boolean;
-  totalCount?: number;
-  [key: string]: any;
+function registerResource(name: string, uri: string, metadata: ResourceMetadata, read: ReadResourceCallback): void;
+function registerResource(name: string, template: ResourceTemplate, metadata: ResourceMetadata, read: ReadResourceTemplateCallback): void;
+function registerResource(
+  name: string,
+  uriOrTemplate: string | ResourceTemplate,
+  metadata: ResourceMetadata,
+  read: ReadResourceCallback | ReadResourceTemplateCallback
+): void {
+  resourceRegistrations.push((server) => {
+    if (typeof uriOrTemplate === "string") {
+      server.registerResource(name, uriOrTemplate, metadata, read as ReadResourceCallback);
+    } else {
+      server.registerResource(name, uriOrTemplate, metadata, read as ReadResourceTemplateCallback);
+    }
+  });
 }
 
+// Apply read-only mode and the allow/deny lists to a registered tool
+function applyToolAccess(name: string, tool: RegisteredTool, policy: ToolAccessPolicy) {
+  const { allowed, reason } = checkToolAccess(name);
+  tool.update({
+    description: `${tool.description}${describeToolAccess(name)}`,
+    annotations: {
+      ...tool.annotations,
+      readOnlyHint: !MUTATING_TOOLS.has(name),
+      destructiveHint: DESTRUCTIVE_TOOLS.has(name),
+    },
+  });
+
+  if (!allowed) {
+    if (policy.behavior === "hide") {
+      tool.disable();
+    } else {
+      tool.update({ callback: withAudit(name, () => toolAccessRefusal(name, reason!)) });
+    }
+  }
+}
+
+// Report the tool access policy once at startup
+function logToolAccess(policy: ToolAccessPolicy) {
+  const toolNames = toolRegistrations.map(({ name }) => name);
+  const unknownTools = [...policy.allowTools, ...policy.denyTools].filter((name) => !toolNames.includes(name));
+  if (unknownTools.length > 0) {
+    console.error(`⚠️  Unknown tools in the allow/deny lists: ${unknownTools.join(", ")}`);
+  }
+
+  const blocked = toolNames.filter((name) => !checkToolAccess(name).allowed);
+  if (policy.readOnly || blocked.length > 0) {
+    console.error(
+      `Read-only mode: ${policy.readOnly ? "on" : "off"}` +
+      (blocked.length > 0 ? `; ${policy.behavior === "hide" ? "hidden" : "refusing"}: ${blocked.join(", ")}` : "")
+    );
+  }
+}
+
+// Connected servers, so a tool call can tell every session that the resources changed
+const liveServers = new Set<McpServer>();
+
+// Sent after tools save exports, import projects, or create, change or delete authentications
+// and subscriptions, so clients re-read the resources they show
+function notifyResourceListChanged(): void {
+  liveServers.forEach((server) => {
+    if (server.isConnected()) {
+      server.server.sendResourceListChanged().catch(() => undefined);
+    }
+  });
+}
+
+// Create a server instance with every tool and resource
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: "tray-mcp-server",
+    version: "1.0.0",
+    capabilities: {
+      resources: { listChanged: true },
+      tools: {},
+    },
+  });
+  liveServers.add(server);
+  server.server.onclose = () => liveServers.delete(server);
+
+  const policy = getToolAccessPolicy();
+  toolRegistrations.forEach(({ name, register }) => applyToolAccess(name, register(server), policy));
+  resourceRegistrations.forEach((register) => register(server));
+  return server;
+}
+
+// Interface definitions for Tray API responses
 interface TrayConnector {
   title: string;
   description: string;
@@ -166,12 +429,13 @@ interface TrayAuthentication {
   name: string;
   serviceEnvironmentId: string;
   scopes: string[];
+  service?: { name?: string; version?: string | number };
 }
 
 interface TrayWorkspace {
   id: string;
   name: string;
-  type: string;
+  type?: string;
   description?: string;
   monthlyTaskLimit?: number;
 }
@@ -181,19 +445,19 @@ interface TrayProject {
   id: string;
   name: string;
   description?: string;
-  workspaceId: string;
-  createdAt: string;
-  updatedAt: string;
+  workspaceId?: string;
+  createdAt?: string;
+  updatedAt?: string;
 }
 
 interface TrayProjectVersion {
   id: string;
   projectId: string;
   versionNumber: string;
-  name: string;
+  name?: string;
   description?: string;
-  createdAt: string;
-  status: string;
+  createdAt?: string;
+  status?: string;
 }
 
 interface TrayWorkflowSummary {
@@ -245,7 +509,7 @@ interface TrayWorkflowDetail {
   id: string;
   name: string;
   description?: string;
-  enabled: boolean;
+  enabled?: boolean;
   tags?: string[];
   steps: TrayWorkflowStep[];
   connections: TrayWorkflowConnection[];
@@ -273,93 +537,45 @@ interface TrayProjectExport {
   };
 }
 
-// Helper function for making Tray API requests
-async function makeTrayRequest<T>(
-  url: string,
-  token: string,
-  options: {
-    method?: string;
-    body?: any;
-    region?: "us" | "eu" | "apac";
-  } = {}
-): Promise<T | null> {
-  const { method = "GET", body, region = "us" } = options;
-  
-  let baseUrl = TRAY_API_BASE;
-  if (region === "eu") baseUrl = TRAY_EU_API_BASE;
-  if (region === "apac") baseUrl = TRAY_APAC_API_BASE;
-
-  const headers: Record<string, string> = {
-    "Authorization": `Bearer ${token}`,
-    "User-Agent": USER_AGENT,
-    "Accept": "application/json",
-  };
-
-  if (body && method !== "GET") {
-    headers["Content-Type"] = "application/json";
-  }
-
-  try {
-    const response = await fetch(`${baseUrl}${url}`, {
-      method,
-      headers,
-      body: body ? JSON.stringify(body) : undefined,
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}, message: ${await response.text()}`);
-    }
-
-    return (await response.json()) as T;
-  } catch (error) {
-    console.error("Error making Tray request:", error);
-    return null;
-  }
-}
-
 // Tool: List Connectors
-server.tool(
+registerTool(
   "list-connectors",
-  "List all available connectors from Tray's connector library",
   {
-    token: z.string().describe("Tray API token (master token or user token)"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all available connectors from Tray's connector library",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (master token or user token); defaults to the configured master token"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      connectors: z.array(trayConnectorSchema),
+      pagination: paginationSchema,
+      cache: cacheInfoSchema.optional(),
+    },
   },
-  async ({ token, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/connectors?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
-
-    const data = await makeTrayRequest<TrayApiResponse<TrayConnector>>(
-      url,
-      token,
-      { region }
-    );
+  async ({ token, limit = 50, cursor, all, maxItems, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve connectors from Tray API",
-          },
-        ],
-      };
+    let data: TrayListResult<TrayConnector>;
+    try {
+      data = await fetchTrayList<TrayConnector>(
+        `/core/v1/connectors`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems, cache: { refresh } }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve connectors from Tray API");
     }
 
     const connectors = data.elements || [];
     if (connectors.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No connectors found",
-          },
-        ],
-      };
+      return toolResult("No connectors found", { connectors, pagination: paginationOf(data), cache: data.cache }, format);
     }
 
     const connectorsText = connectors
@@ -373,74 +589,55 @@ server.tool(
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${connectors.length} connectors:\n\n${connectorsText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${connectors.length} connectors:\n\n${connectorsText}${paginationInfo}${formatCacheInfo(data.cache)}`, { connectors, pagination: paginationOf(data), cache: data.cache }, format);
   }
 );
 
 // Tool: Get Connector Operations
-server.tool(
+registerTool(
   "get-connector-operations",
-  "Get all available operations for a specific connector",
   {
-    token: z.string().describe("Tray API token (master token or user token)"),
-    connectorName: z.string().describe("Name of the connector (e.g., 'slack', 'salesforce')"),
-    connectorVersion: z.string().describe("Version of the connector (e.g., '9.0')"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Get all available operations for a specific connector",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (master token or user token); defaults to the configured master token"),
+      connectorName: z.string().describe("Name of the connector (e.g., 'slack', 'salesforce')"),
+      connectorVersion: z.string().describe("Version of the connector (e.g., '9.0')"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      connectorName: z.string(),
+      connectorVersion: z.string(),
+      operations: z.array(trayConnectorOperationSchema),
+      pagination: paginationSchema,
+      cache: cacheInfoSchema.optional(),
+    },
   },
-  async ({ token, connectorName, connectorVersion, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/operations?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
-
-    const data = await makeTrayRequest<TrayApiResponse<TrayConnectorOperation>>(
-      url,
-      token,
-      { region }
-    );
+  async ({ token, connectorName, connectorVersion, limit = 50, cursor, all, maxItems, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to retrieve operations for connector ${connectorName} v${connectorVersion}`,
-          },
-        ],
-      };
+    let data: TrayListResult<TrayConnectorOperation>;
+    try {
+      data = await fetchTrayList<TrayConnectorOperation>(
+        `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/operations`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems, cache: { refresh } }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve operations for connector ${connectorName} v${connectorVersion}`);
     }
 
     const operations = data.elements || [];
     if (operations.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No operations found for connector ${connectorName} v${connectorVersion}`,
-          },
-        ],
-      };
+      return toolResult(`No operations found for connector ${connectorName} v${connectorVersion}`, { connectorName, connectorVersion, operations, pagination: paginationOf(data), cache: data.cache }, format);
     }
 
     const operationsText = operations
@@ -455,44 +652,116 @@ server.tool(
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${operations.length} operations for ${connectorName} v${connectorVersion}:\n\n${operationsText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${operations.length} operations for ${connectorName} v${connectorVersion}:\n\n${operationsText}${paginationInfo}${formatCacheInfo(data.cache)}`, { connectorName, connectorVersion, operations, pagination: paginationOf(data), cache: data.cache }, format);
   }
 );
 
 // Tool: Call Connector
-server.tool(
+registerTool(
   "call-connector",
-  "Execute a connector operation with specified inputs",
   {
-    token: z.string().describe("Tray API token (user token required for end-user operations)"),
-    connectorName: z.string().describe("Name of the connector"),
-    connectorVersion: z.string().describe("Version of the connector"),
-    operation: z.string().describe("Name of the operation to execute"),
-    authId: z.string().describe("Authentication ID for the connector"),
-    input: z.record(z.any()).describe("Input parameters for the operation"),
-    returnOutputSchema: z.boolean().optional().describe("Return output schema for dynamic operations"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Execute a connector operation with specified inputs",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (user token required for end-user operations); defaults to the configured user token"),
+      connectorName: z.string().describe("Name of the connector"),
+      connectorVersion: z.string().describe("Version of the connector"),
+      operation: z.string().describe("Name of the operation to execute"),
+      authId: z.string().describe("Authentication ID for the connector"),
+      input: z.record(z.any()).describe("Input parameters for the operation"),
+      returnOutputSchema: z.boolean().optional().describe("Return output schema for dynamic operations"),
+      idempotent: z.boolean().optional().describe("Set to true if the operation is safe to repeat (e.g. a read-only lookup) so transient failures are retried; otherwise it is only retried when Tray rate-limits it"),
+      validate: z.boolean().optional().describe("Check the input against the operation's input schema before calling Tray (default: true)"),
+      validateOnly: z.boolean().optional().describe("Only validate the input against the operation's input schema; do not call the operation (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      connectorName: z.string(),
+      connectorVersion: z.string(),
+      operation: z.string(),
+      result: z.any(),
+      validation: inputValidationSchema.optional(),
+    },
   },
-  async ({ token, connectorName, connectorVersion, operation, authId, input, returnOutputSchema, region = "us" }) => {
+  async ({ token, connectorName, connectorVersion, operation, authId, input, returnOutputSchema, idempotent = false, validate = true, validateOnly = false, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "user", profile);
+
+    // Pre-flight check against the operation's input schema, read through the catalog cache
+    let validation: InputValidationResult | undefined;
+    if (validate || validateOnly) {
+      let operations: TrayConnectorOperation[] | undefined;
+      try {
+        operations = (await fetchTrayList<TrayConnectorOperation>(
+          `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/operations`,
+          auth.token,
+          { region: auth.region, limit: 100, all: true, cache: {} }
+        )).elements;
+      } catch (error) {
+        // Without the schema there is nothing to check against; only a dry run has to fail
+        if (validateOnly) {
+          return trayErrorResult(error, `Failed to retrieve the input schema for ${connectorName} v${connectorVersion} ${operation}`);
+        }
+        validation = {
+          valid: true,
+          checked: false,
+          issues: [{
+            path: "input",
+            kind: "invalid",
+            severity: "warning",
+            message: `The operation schema could not be retrieved, so the input was not checked: ${error instanceof Error ? error.message : String(error)}`,
+          }],
+        };
+      }
+
+      if (operations) {
+        const operationSchema = operations.find((op) => op.name === operation);
+        if (!operationSchema) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Operation "${operation}" not found for connector ${connectorName} v${connectorVersion}.\n\n` +
+                  `Available operations: ${operations.map((op) => op.name).join(", ") || "none"}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        validation = validateOperationInput(operationSchema.inputSchema, input);
+      }
+    }
+
+    const validationText = validation && validation.issues.length > 0
+      ? `**Input validation:**\n${formatValidationIssues(validation.issues)}\n\n`
+      : "";
+
+    if (validation && !validation.valid) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Input for ${connectorName} v${connectorVersion} ${operation} does not match the operation's input schema. ` +
+              `Nothing was sent to Tray.\n\n${validationText}` +
+              `Use get-connector-operations to see the full input schema.`,
+          },
+        ],
+        structuredContent: { connectorName, connectorVersion, operation, validation },
+        isError: true,
+      };
+    }
+
+    if (validateOnly) {
+      return toolResult(
+        `${validation?.checked ? "✅ Input is valid" : "⚠️ Input could not be checked"} for ${connectorName} v${connectorVersion} ${operation}. ` +
+          `The operation was not called.${validationText ? `\n\n${validationText.trimEnd()}` : ""}`,
+        { connectorName, connectorVersion, operation, validation },
+        format
+      );
+    }
+
     const payload = {
       operation,
       authId,
@@ -500,77 +769,247 @@ server.tool(
       ...(returnOutputSchema && { returnOutputSchema }),
     };
 
-    const data = await makeTrayRequest(
-      `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/call`,
-      token,
-      { method: "POST", body: payload, region }
-    );
+    let data: any;
+    try {
+      data = await makeTrayRequest(
+        `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/call`,
+        auth.token,
+        { method: "POST", body: payload, region: auth.region, idempotent }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to execute operation ${operation} on connector ${connectorName} v${connectorVersion}`);
+    }
+
+    return toolResult(`${validationText}Operation ${operation} executed successfully:\n\n${JSON.stringify(data, null, 2)}`, { connectorName, connectorVersion, operation, result: data, validation }, format);
+  }
+);
+
+// Tool: Batch Call Connector
+registerTool(
+  "batch-call-connector",
+  {
+    description: "Execute one connector operation for many inputs (e.g. a backfill of records) in a single call, with bounded concurrency and rate limiting. Failed items do not stop the batch; returns a summary and per-item results, and can resume from a checkpoint file",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (user token required for end-user operations); defaults to the configured user token"),
+      connectorName: z.string().describe("Name of the connector"),
+      connectorVersion: z.string().describe("Version of the connector"),
+      operation: z.string().describe("Name of the operation to execute"),
+      authId: z.string().describe("Authentication ID for the connector"),
+      inputs: z.array(z.record(z.any())).optional().describe("Input parameters for each call; pass this or inputsFile"),
+      inputsFile: z.string().optional().describe("JSONL file with one input object per line, relative to the server's batch directory (~/.config/tray-mcp-server/batches); pass this or inputs"),
+      concurrency: z.number().optional().describe(`Calls to run at once (default: 4, max: ${MAX_BATCH_CONCURRENCY})`),
+      ratePerSecond: z.number().optional().describe("Maximum calls started per second (default: no limit beyond the server's request rate limit)"),
+      maxFailures: z.number().optional().describe("Stop starting new calls after this many failures (default: never stop)"),
+      checkpointPath: z.string().optional().describe("JSONL file to record finished items in, relative to the server's batch directory. Running the same batch again with the same path skips items that already succeeded and retries the rest"),
+      includeResults: z.boolean().optional().describe("Include each call's output in the per-item results (default: true); turn off for large batches"),
+      idempotent: z.boolean().optional().describe("Set to true if the operation is safe to repeat so transient failures are retried; otherwise a call is only retried when Tray rate-limits it"),
+      validate: z.boolean().optional().describe("Check each input against the operation's input schema and skip the call when it does not match (default: true)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      connectorName: z.string(),
+      connectorVersion: z.string(),
+      operation: z.string(),
+      summary: z.object({
+        total: z.number(),
+        succeeded: z.number(),
+        failed: z.number(),
+        skipped: z.number(),
+        resumed: z.number(),
+        durationMs: z.number(),
+        stopped: z.enum(["max-failures", "cancelled", "checkpoint-failed"]).optional(),
+        checkpointError: z.string().optional(),
+        validation: z.string().optional(),
+      }),
+      checkpointPath: z.string().optional(),
+      results: z.array(batchItemResultSchema),
+    },
+  },
+  async ({ token, connectorName, connectorVersion, operation, authId, inputs, inputsFile, concurrency = 4, ratePerSecond = 0, maxFailures = 0, checkpointPath, includeResults = true, idempotent = false, validate = true, region, profile, format }, extra) => {
+    const auth = resolveCredentials(token, region, "user", profile);
+    const started = Date.now();
 
-    if (!data) {
+    if ((inputs === undefined) === (inputsFile === undefined)) {
       return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to execute operation ${operation} on connector ${connectorName} v${connectorVersion}`,
-          },
-        ],
+        content: [{ type: "text" as const, text: "Pass either inputs or inputsFile (but not both)." }],
+        isError: true,
       };
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Operation ${operation} executed successfully:\n\n${JSON.stringify(data, null, 2)}`,
+    let items: Record<string, any>[];
+    try {
+      items = inputs || await readJsonlInputs(resolveWithin(getBatchDir(), inputsFile!));
+    } catch (error) {
+      return trayErrorResult(error, `Could not read ${inputsFile}`);
+    }
+    if (items.length === 0 || items.length > MAX_BATCH_ITEMS) {
+      return {
+        content: [{ type: "text" as const, text: `A batch needs between 1 and ${MAX_BATCH_ITEMS} inputs; got ${items.length}.` }],
+        isError: true,
+      };
+    }
+
+    // The schema is fetched once; without it the inputs are sent unchecked, as in call-connector,
+    // and the summary says so
+    let operationSchema: TrayConnectorOperation | undefined;
+    let validationSkipped: string | undefined;
+    if (validate) {
+      let operations: TrayConnectorOperation[] | undefined;
+      try {
+        operations = (await fetchTrayList<TrayConnectorOperation>(
+          `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/operations`,
+          auth.token,
+          { region: auth.region, limit: 100, all: true, cache: {} }
+        )).elements;
+      } catch (error) {
+        validationSkipped = `skipped: could not fetch operation schema (${redactText(error instanceof Error ? error.message : String(error))})`;
+      }
+      operationSchema = operations?.find((op) => op.name === operation);
+      if (operations && !operationSchema) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Operation "${operation}" not found for connector ${connectorName} v${connectorVersion}.\n\n` +
+                `Available operations: ${operations.map((op) => op.name).join(", ") || "none"}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    let resolvedCheckpointPath: string | undefined;
+    try {
+      resolvedCheckpointPath = checkpointPath ? resolveWithin(getBatchDir(), checkpointPath) : undefined;
+    } catch (error) {
+      return trayErrorResult(error, "Invalid checkpointPath");
+    }
+
+    let run: BatchRun;
+    try {
+      run = await runBatch(
+        items,
+        async (input) => {
+          if (operationSchema) {
+            const validation = validateOperationInput(operationSchema.inputSchema, input);
+            if (!validation.valid) {
+              const problems = validation.issues.filter((issue) => issue.severity === "error");
+              throw new Error(`Input does not match the operation's input schema: ${problems.map((issue) => `${issue.path}: ${issue.message}`).join("; ")}`);
+            }
+          }
+          const data = await makeTrayRequest(
+            `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/call`,
+            auth.token,
+            { method: "POST", body: { operation, authId, input }, region: auth.region, idempotent }
+          );
+          return includeResults ? data : undefined;
         },
-      ],
+        {
+          concurrency,
+          ratePerSecond,
+          maxFailures,
+          checkpointPath: resolvedCheckpointPath,
+          jobKey: batchJobKey({ connectorName, connectorVersion, operation, authId, region: auth.region, inputs: items }),
+          signal: extra.signal,
+        }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Batch failed");
+    }
+
+    const results = includeResults ? run.results : run.results.map(({ result, ...rest }) => rest);
+    const failed = run.results.filter((result) => result.status === "error");
+    const summary = {
+      total: items.length,
+      succeeded: run.results.filter((result) => result.status === "success").length,
+      failed: failed.length,
+      skipped: run.results.filter((result) => result.status === "skipped").length,
+      resumed: run.resumed,
+      durationMs: Date.now() - started,
+      ...(run.stopped && { stopped: run.stopped }),
+      ...(run.checkpointError && { checkpointError: run.checkpointError }),
+      ...(validationSkipped && { validation: validationSkipped }),
     };
+
+    let batchText = `# Batch: ${operation} on ${connectorName} v${connectorVersion}\n\n`;
+    batchText += `**Items:** ${summary.total} | ✅ ${summary.succeeded} succeeded | ❌ ${summary.failed} failed | ⏭️ ${summary.skipped} skipped\n`;
+    batchText += `**Duration:** ${summary.durationMs}ms${summary.resumed > 0 ? ` | **Resumed:** ${summary.resumed} succeeded earlier` : ""}\n`;
+    if (run.stopped) {
+      const reasons = {
+        "cancelled": "the request was cancelled",
+        "max-failures": `reached maxFailures (${maxFailures})`,
+        "checkpoint-failed": "the checkpoint could not be written",
+      };
+      batchText += `**Stopped early:** ${reasons[run.stopped]}\n`;
+    }
+    if (validationSkipped) {
+      batchText += `**Input validation:** ⚠️ ${validationSkipped}; the inputs were sent without being checked\n`;
+    }
+    if (run.checkpointError) {
+      batchText += `**Checkpoint error:** ${run.checkpointError}. Items finished after it are not in the checkpoint and would run again on resume.\n`;
+    } else if (resolvedCheckpointPath) {
+      batchText += `**Checkpoint:** ${resolvedCheckpointPath} (run the same batch again to retry failed and skipped items)\n`;
+    }
+    if (failed.length > 0) {
+      batchText += `\n## Failures\n`;
+      failed.slice(0, 50).forEach((result) => {
+        batchText += `- Item ${result.index}: ${result.error}\n`;
+      });
+      if (failed.length > 50) {
+        batchText += `- ... and ${failed.length - 50} more\n`;
+      }
+    }
+
+    return toolResult(
+      batchText,
+      { connectorName, connectorVersion, operation, summary, ...(resolvedCheckpointPath && { checkpointPath: resolvedCheckpointPath }), results },
+      format
+    );
   }
 );
 
 // Tool: List Triggers
-server.tool(
+registerTool(
   "list-triggers",
-  "List all available triggers from Tray's trigger library",
   {
-    token: z.string().describe("Tray API token (master token or user token)"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all available triggers from Tray's trigger library",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (master token or user token); defaults to the configured master token"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      triggers: z.array(trayTriggerSchema),
+      pagination: paginationSchema,
+      cache: cacheInfoSchema.optional(),
+    },
   },
-  async ({ token, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/triggers?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
+  async ({ token, limit = 50, cursor, all, maxItems, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    const data = await makeTrayRequest<TrayApiResponse<TrayTrigger>>(
-      url,
-      token,
-      { region }
-    );
-
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve triggers from Tray API",
-          },
-        ],
-      };
+    let data: TrayListResult<TrayTrigger>;
+    try {
+      data = await fetchTrayList<TrayTrigger>(
+        `/core/v1/triggers`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems, cache: { refresh } }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve triggers from Tray API");
     }
 
     const triggers = data.elements || [];
     if (triggers.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No triggers found",
-          },
-        ],
-      };
+      return toolResult("No triggers found", { triggers, pagination: paginationOf(data), cache: data.cache }, format);
     }
 
     const triggersText = triggers
@@ -584,82 +1023,72 @@ server.tool(
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${triggers.length} triggers:\n\n${triggersText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${triggers.length} triggers:\n\n${triggersText}${paginationInfo}${formatCacheInfo(data.cache)}`, { triggers, pagination: paginationOf(data), cache: data.cache }, format);
   }
 );
 
 // Tool: Get Service Environments
-server.tool(
+registerTool(
   "get-service-environments",
-  "Get service environments for authentication setup",
   {
-    token: z.string().describe("Tray API token"),
-    serviceName: z.string().describe("Name of the service"),
-    serviceVersion: z.string().describe("Version of the service"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Get service environments for authentication setup",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      serviceName: z.string().describe("Name of the service"),
+      serviceVersion: z.string().describe("Version of the service"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      serviceName: z.string(),
+      serviceVersion: z.string(),
+      environments: z.any(),
+    },
   },
-  async ({ token, serviceName, serviceVersion, region = "us" }) => {
-    const data = await makeTrayRequest(
-      `/core/v1/services/${serviceName}/versions/${serviceVersion}/environments`,
-      token,
-      { region }
-    );
+  async ({ token, serviceName, serviceVersion, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to retrieve service environments for ${serviceName} v${serviceVersion}`,
-          },
-        ],
-      };
+    let data: any;
+    try {
+      data = await makeTrayRequest(
+        `/core/v1/services/${serviceName}/versions/${serviceVersion}/environments`,
+        auth.token,
+        { region: auth.region }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve service environments for ${serviceName} v${serviceVersion}`);
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Service environments for ${serviceName} v${serviceVersion}:\n\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+    return toolResult(`Service environments for ${serviceName} v${serviceVersion}:\n\n${JSON.stringify(data, null, 2)}`, { serviceName, serviceVersion, environments: data }, format);
   }
 );
 
 // Tool: Create Authentication
-server.tool(
+registerTool(
   "create-authentication",
-  "Create a new authentication for a service",
   {
-    token: z.string().describe("Tray API token (user token for end-user auths)"),
-    name: z.string().describe("Name for the authentication"),
-    serviceEnvironmentId: z.string().describe("Service environment ID"),
-    userData: z.record(z.any()).optional().describe("User data for the authentication"),
-    credentials: z.record(z.any()).describe("Credentials for the authentication"),
-    scopes: z.array(z.string()).optional().describe("Scopes for OAuth services"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Create a new authentication for a service",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (user token for end-user auths); defaults to the configured user token"),
+      name: z.string().describe("Name for the authentication"),
+      serviceEnvironmentId: z.string().describe("Service environment ID"),
+      userData: z.record(z.any()).optional().describe("User data for the authentication"),
+      credentials: z.record(z.any()).describe("Credentials for the authentication"),
+      scopes: z.array(z.string()).optional().describe("Scopes for OAuth services"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      authentication: z.any(),
+    },
   },
-  async ({ token, name, serviceEnvironmentId, userData, credentials, scopes, region = "us" }) => {
+  async ({ token, name, serviceEnvironmentId, userData, credentials, scopes, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "user", profile);
+
     const payload = {
       name,
       serviceEnvironmentId,
@@ -668,130 +1097,104 @@ server.tool(
       ...(scopes && { scopes }),
     };
 
-    const data = await makeTrayRequest(
-      "/core/v1/authentications",
-      token,
-      { method: "POST", body: payload, region }
-    );
-
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to create authentication",
-          },
-        ],
-      };
+    let data: any;
+    try {
+      data = await makeTrayRequest(
+        "/core/v1/authentications",
+        auth.token,
+        { method: "POST", body: payload, region: auth.region }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to create authentication");
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Authentication created successfully:\n\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+    notifyResourceListChanged();
+    return toolResult(`Authentication created successfully:\n\n${JSON.stringify(data, null, 2)}`, { authentication: data }, format);
   }
 );
 
 // Tool: List Workspaces
-server.tool(
+registerTool(
   "list-workspaces",
-  "List all workspaces the token has access to",
   {
-    token: z.string().describe("Tray API token with workspace access"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all workspaces the token has access to",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with workspace access; defaults to the configured master token"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      workspaces: z.array(trayWorkspaceSchema),
+      pagination: paginationSchema,
+    },
   },
-  async ({ token, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/workspaces?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
-
-    const data = await makeTrayRequest<TrayApiResponse<TrayWorkspace>>(
-      url,
-      token,
-      { region }
-    );
+  async ({ token, limit = 50, cursor, all, maxItems, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve workspaces from Tray API",
-          },
-        ],
-      };
+    let data: TrayListResult<TrayWorkspace>;
+    try {
+      data = await fetchTrayList<TrayWorkspace>(
+        `/core/v1/workspaces`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve workspaces from Tray API");
     }
 
     const workspaces = data.elements || [];
     if (workspaces.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No workspaces found",
-          },
-        ],
-      };
+      return toolResult("No workspaces found", { workspaces, pagination: paginationOf(data) }, format);
     }
 
     const workspacesText = workspaces
       .map(
         (workspace) =>
           `**${workspace.name}** (${workspace.id})\n` +
-          `Type: ${workspace.type}\n` +
+          `Type: ${workspace.type || "N/A"}\n` +
           `${workspace.description ? `Description: ${workspace.description}\n` : ""}` +
           `${workspace.monthlyTaskLimit ? `Monthly Task Limit: ${workspace.monthlyTaskLimit}\n` : ""}`
       )
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${workspaces.length} workspaces:\n\n${workspacesText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${workspaces.length} workspaces:\n\n${workspacesText}${paginationInfo}`, { workspaces, pagination: paginationOf(data) }, format);
   }
 );
 
 // Tool: Create Subscription (for triggers)
-server.tool(
+registerTool(
   "create-subscription",
-  "Create a subscription for real-time trigger events",
   {
-    token: z.string().describe("Tray API token (user token for end-user subscriptions)"),
-    triggerName: z.string().describe("Name of the trigger"),
-    triggerVersion: z.string().describe("Version of the trigger"),
-    operation: z.string().describe("Trigger operation name"),
-    authenticationId: z.string().describe("Authentication ID for the trigger"),
-    endpoint: z.string().describe("Your webhook endpoint URL"),
-    name: z.string().describe("Name for the subscription"),
-    input: z.record(z.any()).describe("Input parameters for the trigger operation"),
-    externalId: z.string().optional().describe("External ID for the subscription"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Create a subscription for real-time trigger events",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (user token for end-user subscriptions); defaults to the configured user token"),
+      triggerName: z.string().describe("Name of the trigger"),
+      triggerVersion: z.string().describe("Version of the trigger"),
+      operation: z.string().describe("Trigger operation name"),
+      authenticationId: z.string().describe("Authentication ID for the trigger"),
+      endpoint: z.string().describe("Your webhook endpoint URL"),
+      name: z.string().describe("Name for the subscription"),
+      input: z.record(z.any()).describe("Input parameters for the trigger operation"),
+      externalId: z.string().optional().describe("External ID for the subscription"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      subscription: z.any(),
+    },
   },
-  async ({ token, triggerName, triggerVersion, operation, authenticationId, endpoint, name, input, externalId, region = "us" }) => {
+  async ({ token, triggerName, triggerVersion, operation, authenticationId, endpoint, name, input, externalId, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "user", profile);
+
     const payload = {
       trigger: {
         name: triggerName,
@@ -805,100 +1208,86 @@ server.tool(
       ...(externalId && { externalId }),
     };
 
-    const data = await makeTrayRequest(
-      "/core/v1/subscriptions",
-      token,
-      { method: "POST", body: payload, region }
-    );
-
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to create subscription",
-          },
-        ],
-      };
+    let data: any;
+    try {
+      data = await makeTrayRequest(
+        "/core/v1/subscriptions",
+        auth.token,
+        { method: "POST", body: payload, region: auth.region }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to create subscription");
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Subscription created successfully:\n\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
+    notifyResourceListChanged();
+    return toolResult(`Subscription created successfully:\n\n${JSON.stringify(data, null, 2)}`, { subscription: data }, format);
   }
 );
 
 // Tool: Get Subscriptions
-server.tool(
+registerTool(
   "get-subscriptions",
-  "List all subscriptions",
   {
-    token: z.string().describe("Tray API token"),
-    limit: z.number().optional().describe("Limit the number of results (default: 10)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all subscriptions",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      limit: z.number().optional().describe("Limit the number of results (default: 10)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      subscriptions: z.array(z.any()),
+      pagination: paginationSchema,
+    },
   },
-  async ({ token, limit = 10, cursor, region = "us" }) => {
-    let url = `/core/v1/subscriptions?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
+  async ({ token, limit = 10, cursor, all, maxItems, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    const data = await makeTrayRequest<TrayApiResponse>(url, token, { region });
-
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve subscriptions",
-          },
-        ],
-      };
+    let data: TrayListResult<any>;
+    try {
+      data = await fetchTrayList<any>(
+        `/core/v1/subscriptions`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve subscriptions");
     }
 
-    // Add pagination info if available
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    // Add pagination info
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Subscriptions:\n\n${JSON.stringify(data, null, 2)}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Subscriptions:\n\n${JSON.stringify(data, null, 2)}${paginationInfo}`, { subscriptions: data.elements, pagination: paginationOf(data) }, format);
   }
 );
 
 // Tool: Update Subscription
-server.tool(
+registerTool(
   "update-subscription",
-  "Update an existing subscription",
   {
-    token: z.string().describe("Tray API token"),
-    subscriptionId: z.string().describe("ID of the subscription to update"),
-    name: z.string().optional().describe("New name for the subscription"),
-    endpoint: z.string().optional().describe("New webhook endpoint URL"),
-    input: z.record(z.any()).optional().describe("New input parameters for the trigger operation"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Update an existing subscription",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      subscriptionId: z.string().describe("ID of the subscription to update"),
+      name: z.string().optional().describe("New name for the subscription"),
+      endpoint: z.string().optional().describe("New webhook endpoint URL"),
+      input: z.record(z.any()).optional().describe("New input parameters for the trigger operation"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      subscriptionId: z.string(),
+      subscription: z.any(),
+    },
   },
-  async ({ token, subscriptionId, name, endpoint, input, region = "us" }) => {
+  async ({ token, subscriptionId, name, endpoint, input, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
     const payload: Record<string, any> = {};
     if (name) payload.name = name;
     if (endpoint) payload.endpoint = endpoint;
@@ -912,138 +1301,417 @@ server.tool(
             text: "No update parameters provided. Please specify at least one of: name, endpoint, or input.",
           },
         ],
+        isError: true,
       };
     }
 
-    const data = await makeTrayRequest(
-      `/core/v1/subscriptions/${subscriptionId}`,
-      token,
-      { method: "PATCH", body: payload, region }
-    );
+    let data: any;
+    try {
+      data = await makeTrayRequest(
+        `/core/v1/subscriptions/${subscriptionId}`,
+        auth.token,
+        { method: "PATCH", body: payload, region: auth.region, idempotent: true }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to update subscription ${subscriptionId}`);
+    }
+
+    notifyResourceListChanged();
+    return toolResult(`Subscription ${subscriptionId} updated successfully:\n\n${JSON.stringify(data, null, 2)}`, { subscriptionId, subscription: data }, format);
+  }
+);
+
+// Workflows in a workspace's projects that use an authentication, checked against the latest
+// version of each project. Used by the delete-authentication preview.
+const MAX_PROJECTS_SCANNED = 50;
+
+async function findWorkflowsUsingAuthentication(
+  token: string,
+  region: TrayRegion,
+  workspaceId: string,
+  authenticationId: string
+): Promise<{
+  projectsScanned: number;
+  truncated: boolean;
+  failedProjects: string[];
+  workflows: { projectId: string; projectName: string; versionNumber: string; workflowId: string; workflowName: string }[];
+}> {
+  const projects = await fetchTrayList<TrayProject>(
+    `/core/v1/projects?workspaceId=${workspaceId}`,
+    token,
+    { region, limit: 100, all: true, maxItems: MAX_PROJECTS_SCANNED }
+  );
+
+  const workflows: { projectId: string; projectName: string; versionNumber: string; workflowId: string; workflowName: string }[] = [];
+  const failedProjects: string[] = [];
+  const scanned = projects.elements.slice(0, MAX_PROJECTS_SCANNED);
+
+  for (const project of scanned) {
+    try {
+      const versions = await fetchTrayList<TrayProjectVersion>(
+        `/core/v1/projects/${project.id}/versions`,
+        token,
+        { region, limit: 100, all: true }
+      );
+      const latest = versions.elements.sort((a, b) => Number(b.versionNumber) - Number(a.versionNumber))[0];
+      if (!latest) {
+        continue;
+      }
+
+      const projectExport = await makeTrayRequest<TrayProjectExport>(
+        `/core/v1/projects/${project.id}/versions/${latest.versionNumber}/export`,
+        token,
+        { region }
+      );
+      (projectExport.workflows || []).forEach((workflow) => {
+        const steps = [...(workflow.steps || []), ...(workflow.triggers || [])];
+        if (steps.some((step) => step.authentication?.id === authenticationId)) {
+          workflows.push({
+            projectId: project.id,
+            projectName: project.name,
+            versionNumber: latest.versionNumber,
+            workflowId: workflow.id,
+            workflowName: workflow.name,
+          });
+        }
+      });
+    } catch (error) {
+      failedProjects.push(project.name || project.id);
+    }
+  }
+
+  return {
+    projectsScanned: scanned.length,
+    truncated: projects.elements.length > MAX_PROJECTS_SCANNED || projects.truncated,
+    failedProjects,
+    workflows,
+  };
+}
+
+// Tool: Delete Subscription
+registerTool(
+  "delete-subscription",
+  {
+    description: "Delete a subscription by ID. The first call returns a preview and a short-lived confirmationToken; call again with the token to delete",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      subscriptionId: z.string().describe("ID of the subscription to delete"),
+      confirmationToken: z.string().optional().describe("Token from the preview call; required to actually delete"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      subscriptionId: z.string(),
+      deleted: z.boolean(),
+      preview: z.object({
+        subscription: z.any(),
+        authentication: trayAuthenticationSchema.partial().passthrough().optional(),
+        warnings: z.array(z.string()),
+      }).optional(),
+      confirmationToken: z.string().optional(),
+      expiresAt: z.string().optional(),
+    },
+  },
+  async ({ token, subscriptionId, confirmationToken, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    if (confirmationToken) {
+      const rejection = redeemConfirmationToken(confirmationToken, "delete-subscription", subscriptionId, auth.region, callerFingerprint(auth.token));
+      if (rejection) {
+        return confirmationErrorResult("delete-subscription", rejection);
+      }
+
+      try {
+        await makeTrayRequest(
+          `/core/v1/subscriptions/${subscriptionId}`,
+          auth.token,
+          { method: "DELETE", region: auth.region }
+        );
+      } catch (error) {
+        return trayErrorResult(error, `Failed to delete subscription ${subscriptionId}`);
+      }
 
-    if (!data) {
+      notifyResourceListChanged();
+      return toolResult(`Subscription ${subscriptionId} deleted successfully`, { subscriptionId, deleted: true }, format);
+    }
+
+    // Preview: make sure the subscription exists and show what it is before anything is deleted
+    let subscriptions: TrayListResult<any>;
+    try {
+      subscriptions = await fetchTrayList<any>(
+        `/core/v1/subscriptions`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to look up subscription ${subscriptionId}`);
+    }
+
+    const subscription = subscriptions.elements.find((item) => item.id === subscriptionId);
+    if (!subscription) {
       return {
         content: [
           {
-            type: "text",
-            text: `Failed to update subscription ${subscriptionId}`,
+            type: "text" as const,
+            text: `No subscription with ID ${subscriptionId} was found in region ${auth.region}. Nothing was deleted.\n\n` +
+              `Use get-subscriptions to find the right ID.`,
           },
         ],
+        isError: true,
       };
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Subscription ${subscriptionId} updated successfully:\n\n${JSON.stringify(data, null, 2)}`,
-        },
-      ],
-    };
-  }
-);
+    const warnings: string[] = [];
+    let authentication: TrayAuthentication | undefined;
+    if (subscription.authenticationId) {
+      try {
+        const authentications = await fetchTrayList<TrayAuthentication>(
+          `/core/v1/authentications`,
+          auth.token,
+          { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS }
+        );
+        authentication = authentications.elements.find((item) => item.id === subscription.authenticationId);
+      } catch (error) {
+        warnings.push(`Could not look up authentication ${subscription.authenticationId}`);
+      }
+    }
 
-// Tool: Delete Subscription
-server.tool(
-  "delete-subscription",
-  "Delete a subscription by ID",
-  {
-    token: z.string().describe("Tray API token"),
-    subscriptionId: z.string().describe("ID of the subscription to delete"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
-  },
-  async ({ token, subscriptionId, region = "us" }) => {
-    const response = await makeTrayRequest(
-      `/core/v1/subscriptions/${subscriptionId}`,
-      token,
-      { method: "DELETE", region }
-    );
+    const { confirmationToken: newToken, expiresAt } = issueConfirmationToken("delete-subscription", subscriptionId, auth.region, callerFingerprint(auth.token));
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: response === null 
-            ? "Failed to delete subscription"
-            : `Subscription ${subscriptionId} deleted successfully`,
-        },
-      ],
-    };
+    let previewText = `# ⚠️ Confirm deletion of subscription ${subscriptionId}\n\n`;
+    previewText += `**Name:** ${subscription.name || "Unnamed"}\n`;
+    if (subscription.trigger) {
+      previewText += `**Trigger:** ${subscription.trigger.name} v${subscription.trigger.version}\n`;
+    }
+    if (subscription.operation) {
+      previewText += `**Operation:** ${subscription.operation}\n`;
+    }
+    if (subscription.endpoint) {
+      previewText += `**Endpoint:** ${subscription.endpoint}\n`;
+    }
+    if (subscription.authenticationId) {
+      previewText += `**Authentication:** ${authentication?.name || "Unknown"} (${subscription.authenticationId})\n`;
+    }
+    previewText += `\nDeleting it stops event delivery to the endpoint above.\n`;
+    warnings.forEach((warning) => {
+      previewText += `⚠️ ${warning}\n`;
+    });
+    previewText += `\n**Nothing has been deleted yet.** To delete, call delete-subscription again with ` +
+      `confirmationToken: "${newToken}" (expires ${expiresAt}).`;
+
+    return toolResult(previewText, {
+      subscriptionId,
+      deleted: false,
+      preview: { subscription, authentication, warnings },
+      confirmationToken: newToken,
+      expiresAt,
+    }, format);
   }
 );
 
 // Tool: Delete Authentication
-server.tool(
+registerTool(
   "delete-authentication",
-  "Delete an authentication by ID",
   {
-    token: z.string().describe("Tray API token"),
-    authenticationId: z.string().describe("Authentication ID to delete"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Delete an authentication by ID. The first call returns a preview (name, service, referencing subscriptions and workflows) and a short-lived confirmationToken; call again with the token to delete",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      authenticationId: z.string().describe("Authentication ID to delete"),
+      confirmationToken: z.string().optional().describe("Token from the preview call; required to actually delete"),
+      workspaceId: z.string().optional().describe("Also check the latest version of each project in this workspace for workflows using the authentication (preview only; up to 50 projects)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      authenticationId: z.string(),
+      deleted: z.boolean(),
+      preview: z.object({
+        authentication: trayAuthenticationSchema,
+        subscriptions: z.array(z.any()),
+        workflows: z.array(z.object({
+          projectId: z.string(),
+          projectName: z.string(),
+          versionNumber: z.string(),
+          workflowId: z.string(),
+          workflowName: z.string(),
+        })).optional(),
+        projectsScanned: z.number().optional(),
+        warnings: z.array(z.string()),
+      }).optional(),
+      confirmationToken: z.string().optional(),
+      expiresAt: z.string().optional(),
+    },
   },
-  async ({ token, authenticationId, region = "us" }) => {
-    const response = await makeTrayRequest(
-      `/core/v1/authentications/${authenticationId}`,
-      token,
-      { method: "DELETE", region }
-    );
+  async ({ token, authenticationId, confirmationToken, workspaceId, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: response === null 
-            ? "Failed to delete authentication"
-            : `Authentication ${authenticationId} deleted successfully`,
-        },
-      ],
-    };
-  }
-);
+    if (confirmationToken) {
+      const rejection = redeemConfirmationToken(confirmationToken, "delete-authentication", authenticationId, auth.region, callerFingerprint(auth.token));
+      if (rejection) {
+        return confirmationErrorResult("delete-authentication", rejection);
+      }
 
-// Tool: List Authentications
-server.tool(
-  "list-authentications",
-  "List all authentications the token has access to",
-  {
-    token: z.string().describe("Tray API token"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
-  },
-  async ({ token, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/authentications?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
+      try {
+        await makeTrayRequest(
+          `/core/v1/authentications/${authenticationId}`,
+          auth.token,
+          { method: "DELETE", region: auth.region }
+        );
+      } catch (error) {
+        return trayErrorResult(error, `Failed to delete authentication ${authenticationId}`);
+      }
+
+      notifyResourceListChanged();
+      return toolResult(`Authentication ${authenticationId} deleted successfully`, { authenticationId, deleted: true }, format);
     }
 
-    const data = await makeTrayRequest<TrayApiResponse<TrayAuthentication>>(
-      url,
-      token,
-      { region }
-    );
+    // Preview: make sure the authentication exists and show what depends on it
+    let authentications: TrayListResult<TrayAuthentication>;
+    try {
+      authentications = await fetchTrayList<TrayAuthentication>(
+        `/core/v1/authentications`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to look up authentication ${authenticationId}`);
+    }
 
-    if (!data) {
+    const authentication = authentications.elements.find((item) => item.id === authenticationId);
+    if (!authentication) {
       return {
         content: [
           {
-            type: "text",
-            text: "Failed to retrieve authentications from Tray API",
+            type: "text" as const,
+            text: `No authentication with ID ${authenticationId} was found in region ${auth.region}. Nothing was deleted.\n\n` +
+              `Use list-authentications to find the right ID.`,
           },
         ],
+        isError: true,
       };
     }
 
+    const warnings: string[] = [];
+    let subscriptions: any[] = [];
+    try {
+      subscriptions = (await fetchTrayList<any>(
+        `/core/v1/subscriptions`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS }
+      )).elements.filter((subscription) => subscription.authenticationId === authenticationId);
+    } catch (error) {
+      warnings.push("Could not check subscriptions for references to this authentication");
+    }
+
+    let workflowScan: Awaited<ReturnType<typeof findWorkflowsUsingAuthentication>> | undefined;
+    if (workspaceId) {
+      try {
+        workflowScan = await findWorkflowsUsingAuthentication(auth.token, auth.region, workspaceId, authenticationId);
+        if (workflowScan.truncated) {
+          warnings.push(`Only the first ${MAX_PROJECTS_SCANNED} projects in workspace ${workspaceId} were checked`);
+        }
+        if (workflowScan.failedProjects.length > 0) {
+          warnings.push(`Could not check projects: ${workflowScan.failedProjects.join(", ")}`);
+        }
+      } catch (error) {
+        warnings.push(`Could not check workflows in workspace ${workspaceId}`);
+      }
+    }
+
+    const { confirmationToken: newToken, expiresAt } = issueConfirmationToken("delete-authentication", authenticationId, auth.region, callerFingerprint(auth.token));
+    const service = authentication.service;
+
+    let previewText = `# ⚠️ Confirm deletion of authentication ${authenticationId}\n\n`;
+    previewText += `**Name:** ${authentication.name}\n`;
+    if (service?.name) {
+      previewText += `**Service:** ${service.name}${service.version !== undefined ? ` v${service.version}` : ""}\n`;
+    }
+    previewText += `**Service Environment ID:** ${authentication.serviceEnvironmentId}\n`;
+    previewText += `**Scopes:** ${authentication.scopes ? authentication.scopes.join(", ") : "None"}\n\n`;
+
+    previewText += `## Referenced By\n\n`;
+    previewText += `**Subscriptions (${subscriptions.length}):**\n`;
+    if (subscriptions.length === 0) {
+      previewText += `- None\n`;
+    }
+    subscriptions.forEach((subscription) => {
+      previewText += `- ${subscription.name || "Unnamed"} (${subscription.id})` +
+        `${subscription.trigger ? ` — ${subscription.trigger.name} v${subscription.trigger.version}` : ""}\n`;
+    });
+
+    if (workflowScan) {
+      previewText += `\n**Workflows (${workflowScan.workflows.length}, from the latest version of ${workflowScan.projectsScanned} projects):**\n`;
+      if (workflowScan.workflows.length === 0) {
+        previewText += `- None\n`;
+      }
+      workflowScan.workflows.forEach((workflow) => {
+        previewText += `- ${workflow.workflowName} (${workflow.workflowId}) in ${workflow.projectName} v${workflow.versionNumber}\n`;
+      });
+    } else if (!workspaceId) {
+      previewText += `\n**Workflows:** Not checked. Pass workspaceId to check the projects in a workspace.\n`;
+    }
+
+    warnings.forEach((warning) => {
+      previewText += `⚠️ ${warning}\n`;
+    });
+    previewText += `\n**Nothing has been deleted yet.** To delete, call delete-authentication again with ` +
+      `confirmationToken: "${newToken}" (expires ${expiresAt}).`;
+
+    return toolResult(previewText, {
+      authenticationId,
+      deleted: false,
+      preview: {
+        authentication,
+        subscriptions,
+        workflows: workflowScan?.workflows,
+        projectsScanned: workflowScan?.projectsScanned,
+        warnings,
+      },
+      confirmationToken: newToken,
+      expiresAt,
+    }, format);
+  }
+);
+
+// Tool: List Authentications
+registerTool(
+  "list-authentications",
+  {
+    description: "List all authentications the token has access to",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      authentications: z.array(trayAuthenticationSchema),
+      pagination: paginationSchema,
+    },
+  },
+  async ({ token, limit = 50, cursor, all, maxItems, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let data: TrayListResult<TrayAuthentication>;
+    try {
+      data = await fetchTrayList<TrayAuthentication>(
+        `/core/v1/authentications`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve authentications from Tray API");
+    }
+
     const authentications = data.elements || [];
     if (authentications.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No authentications found",
-          },
-        ],
-      };
+      return toolResult("No authentications found", { authentications, pagination: paginationOf(data) }, format);
     }
 
     const authsText = authentications
@@ -1056,157 +1724,560 @@ server.tool(
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${authentications.length} authentications:\n\n${authsText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${authentications.length} authentications:\n\n${authsText}${paginationInfo}`, { authentications, pagination: paginationOf(data) }, format);
   }
 );
 
 // Tool: Get Trigger Operations
-server.tool(
+registerTool(
   "get-trigger-operations",
-  "Get all available operations for a specific trigger",
   {
-    token: z.string().describe("Tray API token"),
-    triggerName: z.string().describe("Name of the trigger"),
-    triggerVersion: z.string().describe("Version of the trigger"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Get all available operations for a specific trigger",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token; defaults to the configured master token"),
+      triggerName: z.string().describe("Name of the trigger"),
+      triggerVersion: z.string().describe("Version of the trigger"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      triggerName: z.string(),
+      triggerVersion: z.string(),
+      operations: z.array(trayConnectorOperationSchema),
+      pagination: paginationSchema,
+      cache: cacheInfoSchema.optional(),
+    },
   },
-  async ({ token, triggerName, triggerVersion, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/triggers/${triggerName}/versions/${triggerVersion}/operations?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
+  async ({ token, triggerName, triggerVersion, limit = 50, cursor, all, maxItems, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let data: TrayListResult<TrayConnectorOperation>;
+    try {
+      data = await fetchTrayList<TrayConnectorOperation>(
+        `/core/v1/triggers/${triggerName}/versions/${triggerVersion}/operations`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems, cache: { refresh } }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve operations for trigger ${triggerName} v${triggerVersion}`);
     }
 
-    const data = await makeTrayRequest<TrayApiResponse<TrayConnectorOperation>>(
-      url,
-      token,
-      { region }
-    );
+    const operations = data.elements || [];
+    if (operations.length === 0) {
+      return toolResult(`No operations found for trigger ${triggerName} v${triggerVersion}`, { triggerName, triggerVersion, operations, pagination: paginationOf(data), cache: data.cache }, format);
+    }
+
+    const operationsText = operations
+      .map(
+        (op) =>
+          `**${op.title}** (${op.name})\n` +
+          `Description: ${op.description}\n` +
+          `Dynamic Output: ${op.hasDynamicOutput}\n` +
+          `Auth Scopes: ${op.authScopes ? op.authScopes.join(", ") : "None"}\n` +
+          `Input Schema: ${JSON.stringify(op.inputSchema, null, 2)}`
+      )
+      .join("\n---\n");
+
+    // Add pagination info
+    const paginationInfo = formatPaginationInfo(data);
+
+    return toolResult(`Found ${operations.length} operations for ${triggerName} v${triggerVersion}:\n\n${operationsText}${paginationInfo}${formatCacheInfo(data.cache)}`, { triggerName, triggerVersion, operations, pagination: paginationOf(data), cache: data.cache }, format);
+  }
+);
+
+// Tool: Search Connectors
+registerTool(
+  "search-connectors",
+  {
+    description: "Search the connector catalog by what you want to do (e.g. 'create a Jira issue'), ranking connectors and their operations by relevance. Returns the connector, version and operation to use with call-connector",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (master token or user token); defaults to the configured master token"),
+      query: z.string().describe("What you are looking for, in plain words"),
+      limit: z.number().optional().describe("Maximum number of results (default: 10)"),
+      connectorCandidates: z.number().optional().describe("How many of the best-matching connectors to load operations for (default: 10)"),
+      deep: z.boolean().optional().describe("Load operations for every connector instead of the best candidates; slow until the catalog cache is warm (default: false)"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      query: z.string(),
+      results: z.array(z.object({
+        connectorName: z.string(),
+        connectorVersion: z.string(),
+        connectorTitle: z.string(),
+        operation: z.string().optional(),
+        operationTitle: z.string().optional(),
+        description: z.string().optional(),
+        score: z.number(),
+      })),
+      connectorsSearched: z.number(),
+      operationsSearched: z.number(),
+      failedConnectors: z.array(z.string()),
+    },
+  },
+  async ({ token, query, limit = 10, connectorCandidates = 10, deep, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let data: TrayListResult<TrayConnector>;
+    try {
+      data = await fetchTrayList<TrayConnector>(
+        `/core/v1/connectors`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS, cache: { refresh } }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve connectors from Tray API");
+    }
+
+    type SearchResult = {
+      connectorName: string;
+      connectorVersion: string;
+      connectorTitle: string;
+      operation?: string;
+      operationTitle?: string;
+      description?: string;
+    };
+
+    const connectors = data.elements;
+    const connectorFields = (connector: TrayConnector) => [
+      { text: connector.title, weight: 3 },
+      { text: connector.name, weight: 2 },
+      { text: connector.service?.name, weight: 1 },
+      { text: connector.description, weight: 1 },
+    ];
+
+    // First rank connectors on their own, then load operations only for the best candidates
+    const connectorIndex = new Bm25Index<TrayConnector>();
+    connectors.forEach((connector) => connectorIndex.add(connector, connectorFields(connector)));
+    const candidates = deep
+      ? connectors
+      : connectorIndex.search(query, Math.max(1, connectorCandidates)).map((hit) => hit.item);
+
+    // Connectors and operations are ranked together, so an operation that matches beats a
+    // connector that only matches by name
+    const index = new Bm25Index<SearchResult>();
+    connectors.forEach((connector) => index.add({
+      connectorName: connector.name,
+      connectorVersion: connector.version,
+      connectorTitle: connector.title,
+      description: connector.description || undefined,
+    }, connectorFields(connector)));
+
+    let operationsSearched = 0;
+    const failedConnectors: string[] = [];
+    for (const connector of candidates) {
+      let operations: TrayConnectorOperation[];
+      try {
+        operations = (await fetchTrayList<TrayConnectorOperation>(
+          `/core/v1/connectors/${connector.name}/versions/${connector.version}/operations`,
+          auth.token,
+          { region: auth.region, limit: 100, all: true, cache: { refresh } }
+        )).elements;
+      } catch (error) {
+        failedConnectors.push(`${connector.name}:${connector.version}`);
+        continue;
+      }
+
+      operations.forEach((operation) => {
+        operationsSearched++;
+        index.add({
+          connectorName: connector.name,
+          connectorVersion: connector.version,
+          connectorTitle: connector.title,
+          operation: operation.name,
+          operationTitle: operation.title,
+          description: operation.description || undefined,
+        }, [
+          { text: operation.title, weight: 3 },
+          { text: operation.name, weight: 2 },
+          { text: operation.description, weight: 1 },
+          { text: connector.title, weight: 2 },
+        ]);
+      });
+    }
+
+    const results = index.search(query, Math.max(1, limit)).map((hit) => ({
+      ...hit.item,
+      score: Math.round(hit.score * 1000) / 1000,
+    }));
+    const structured = {
+      query,
+      results,
+      connectorsSearched: connectors.length,
+      operationsSearched,
+      failedConnectors,
+    };
+
+    if (results.length === 0) {
+      return toolResult(`No connectors or operations match "${query}"`, structured, format);
+    }
+
+    const resultsText = results
+      .map((result, i) =>
+        result.operation
+          ? `${i + 1}. **${result.connectorTitle}: ${result.operationTitle}** — connectorName: \`${result.connectorName}\`, connectorVersion: \`${result.connectorVersion}\`, operation: \`${result.operation}\` (score ${result.score})\n` +
+            `   ${result.description || "No description"}`
+          : `${i + 1}. **${result.connectorTitle}** (connector) — connectorName: \`${result.connectorName}\`, connectorVersion: \`${result.connectorVersion}\` (score ${result.score})\n` +
+            `   ${result.description || "No description"}`
+      )
+      .join("\n");
+
+    let searchText = `Top ${results.length} matches for "${query}":\n\n${resultsText}\n\n`;
+    searchText += `Searched ${connectors.length} connectors and ${operationsSearched} operations from ${candidates.length} of them.`;
+    if (!deep) {
+      searchText += ` Use deep: true to search the operations of every connector.`;
+    }
+    if (failedConnectors.length > 0) {
+      searchText += `\n⚠️ Could not load operations for: ${failedConnectors.join(", ")}`;
+    }
 
-    if (!data) {
+    return toolResult(searchText, structured, format);
+  }
+);
+
+// Tool: Generate Operation Input
+registerTool(
+  "generate-operation-input",
+  {
+    description: "Generate example input payloads for a connector operation from its input schema: a minimal skeleton with only required fields and a fully populated example, ready to fill in and pass to call-connector",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token (master token or user token); defaults to the configured master token"),
+      connectorName: z.string().describe("Name of the connector (e.g., 'slack', 'salesforce')"),
+      connectorVersion: z.string().describe("Version of the connector (e.g., '9.0')"),
+      operation: z.string().describe("Name of the operation"),
+      refresh: z.boolean().optional().describe("Bypass the local catalog cache and fetch fresh data from Tray (default: false)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      connectorName: z.string(),
+      connectorVersion: z.string(),
+      operation: z.string(),
+      minimal: z.record(z.any()),
+      full: z.record(z.any()),
+      fields: z.array(z.object({
+        path: z.string(),
+        type: z.string(),
+        required: z.boolean(),
+        description: z.string().optional(),
+        enum: z.array(z.any()).optional(),
+        default: z.any().optional(),
+        placeholder: z.boolean(),
+        note: z.string().optional(),
+      })),
+    },
+  },
+  async ({ token, connectorName, connectorVersion, operation, refresh, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let operations: TrayConnectorOperation[];
+    try {
+      operations = (await fetchTrayList<TrayConnectorOperation>(
+        `/core/v1/connectors/${connectorName}/versions/${connectorVersion}/operations`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, cache: { refresh } }
+      )).elements;
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve operations for connector ${connectorName} v${connectorVersion}`);
+    }
+
+    const operationSchema = operations.find((op) => op.name === operation);
+    if (!operationSchema) {
       return {
         content: [
           {
-            type: "text",
-            text: `Failed to retrieve operations for trigger ${triggerName} v${triggerVersion}`,
+            type: "text" as const,
+            text: `Operation "${operation}" not found for connector ${connectorName} v${connectorVersion}.\n\n` +
+              `Available operations: ${operations.map((op) => op.name).join(", ") || "none"}`,
           },
         ],
+        isError: true,
       };
     }
 
-    const operations = data.elements || [];
-    if (operations.length === 0) {
+    const example = generateOperationInput(operationSchema.inputSchema);
+
+    let exampleText = `# Example input for ${connectorName} v${connectorVersion} ${operation}\n\n`;
+    exampleText += `Replace values shown as \`<name: type>\` (and placeholder numbers/booleans marked below) before passing the input to call-connector.\n\n`;
+    exampleText += `## Minimal (required fields only)\n\n\`\`\`json\n${JSON.stringify(example.minimal, null, 2)}\n\`\`\`\n\n`;
+    exampleText += `## Full example\n\n\`\`\`json\n${JSON.stringify(example.full, null, 2)}\n\`\`\`\n\n`;
+
+    if (example.fields.length > 0) {
+      exampleText += `## Fields\n\n`;
+      example.fields.forEach((field) => {
+        exampleText += `- \`${field.path}\` (${field.type}${field.required ? ", required" : ""})`;
+        if (field.placeholder) {
+          exampleText += ` — placeholder`;
+        }
+        if (field.description) {
+          exampleText += `: ${field.description}`;
+        }
+        if (field.enum) {
+          exampleText += ` Allowed: ${field.enum.map((value) => JSON.stringify(value)).join(", ")}.`;
+        }
+        if (field.default !== undefined) {
+          exampleText += ` Default: ${JSON.stringify(field.default)}.`;
+        }
+        if (field.note) {
+          exampleText += ` ${field.note}.`;
+        }
+        exampleText += `\n`;
+      });
+    } else {
+      exampleText += `This operation takes no input fields.\n`;
+    }
+
+    return toolResult(exampleText, { connectorName, connectorVersion, operation, ...example }, format);
+  }
+);
+
+// Tool: Cache Status
+registerTool(
+  "cache-status",
+  {
+    description: "Show what the local connector and trigger catalog cache holds, its location and TTL",
+    inputSchema: {
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Only report this region (default: all regions)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      directory: z.string(),
+      enabled: z.boolean(),
+      ttlSeconds: z.number(),
+      entries: z.number(),
+      sizeBytes: z.number(),
+      oldestFetchedAt: z.string().optional(),
+      newestFetchedAt: z.string().optional(),
+      regions: z.array(z.object({ region: z.string(), entries: z.number(), sizeBytes: z.number() })),
+    },
+  },
+  async ({ region, format }) => {
+    const stats = await getCacheStats(region);
+
+    let statusText = `# Catalog Cache\n\n`;
+    statusText += `**Directory:** ${stats.directory}\n`;
+    statusText += `**Enabled:** ${stats.enabled ? "Yes" : "No"}\n`;
+    statusText += `**TTL:** ${stats.ttlSeconds}s\n`;
+    statusText += `**Entries:** ${stats.entries} (${(stats.sizeBytes / 1024).toFixed(1)} KB)\n`;
+    if (stats.oldestFetchedAt) {
+      statusText += `**Oldest Entry:** ${stats.oldestFetchedAt}\n`;
+      statusText += `**Newest Entry:** ${stats.newestFetchedAt}\n`;
+    }
+    statusText += `\n`;
+    stats.regions.forEach((regionStats) => {
+      statusText += `- **${regionStats.region.toUpperCase()}:** ${regionStats.entries} entries (${(regionStats.sizeBytes / 1024).toFixed(1)} KB)\n`;
+    });
+
+    return toolResult(statusText, { ...stats }, format);
+  }
+);
+
+// Tool: Clear Cache
+registerTool(
+  "clear-cache",
+  {
+    description: "Delete cached connector and trigger catalog data so the next call fetches it from Tray",
+    inputSchema: {
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Only clear this region (default: all regions)"),
+      name: z.string().optional().describe("Only clear cached operations of this connector or trigger (e.g., 'slack')"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      removed: z.number(),
+      region: z.string().optional(),
+      name: z.string().optional(),
+    },
+  },
+  async ({ region, name, format }) => {
+    const removed = await clearCache({ region, name });
+
+    const scope = [name && `"${name}"`, region && `region ${region.toUpperCase()}`].filter(Boolean).join(" in ");
+    return toolResult(
+      `Removed ${removed} cache entries${scope ? ` for ${scope}` : ""}`,
+      { removed, region, name },
+      format
+    );
+  }
+);
+
+// Tool: Query Audit Log
+registerTool(
+  "query-audit-log",
+  {
+    description: "Search the audit log of tool calls made through this server, with the Tray API requests each one sent",
+    inputSchema: {
+      tool: z.string().optional().describe("Only show calls to this tool (e.g., 'call-connector')"),
+      outcome: z.enum(["success", "error"]).optional().describe("Only show calls that succeeded or failed"),
+      since: z.string().optional().describe("Only show calls at or after this ISO 8601 time (e.g., '2024-05-01T00:00:00Z')"),
+      until: z.string().optional().describe("Only show calls at or before this ISO 8601 time"),
+      limit: z.number().optional().describe("Maximum number of entries to return, newest first (default: 50, max: 500)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      path: z.string(),
+      enabled: z.boolean(),
+      scanned: z.number(),
+      entries: z.array(auditEntrySchema),
+    },
+  },
+  async ({ tool, outcome, since, until, limit, format }) => {
+    const invalidTime = [since, until].find((time) => time !== undefined && Number.isNaN(Date.parse(time)));
+    if (invalidTime !== undefined) {
       return {
         content: [
           {
-            type: "text",
-            text: `No operations found for trigger ${triggerName} v${triggerVersion}`,
+            type: "text" as const,
+            text: `Invalid time "${invalidTime}". Use an ISO 8601 time such as 2024-05-01T00:00:00Z.`,
           },
         ],
+        isError: true,
       };
     }
 
-    const operationsText = operations
-      .map(
-        (op) =>
-          `**${op.title}** (${op.name})\n` +
-          `Description: ${op.description}\n` +
-          `Dynamic Output: ${op.hasDynamicOutput}\n` +
-          `Auth Scopes: ${op.authScopes ? op.authScopes.join(", ") : "None"}\n` +
-          `Input Schema: ${JSON.stringify(op.inputSchema, null, 2)}`
-      )
-      .join("\n---\n");
+    // HTTP clients mapped to a profile only see their own calls
+    const client = getHttpClient();
+    const policy = getAuditPolicy();
+    const { entries, scanned } = await queryAuditLog({
+      tool,
+      outcome,
+      client: client?.profile ? client.name : undefined,
+      since,
+      until,
+      limit: Math.min(Math.max(limit || 50, 1), 500),
+    });
 
-    // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
+    let auditText = `# Audit Log\n\n`;
+    auditText += `**File:** ${policy.path}${policy.enabled ? "" : " (logging is disabled)"}\n`;
+    auditText += `**Matching Entries:** ${entries.length} (of ${scanned} scanned)\n\n`;
+
+    entries.forEach((entry: AuditEntry) => {
+      auditText += `## ${entry.timestamp} ${entry.tool} ${entry.outcome === "success" ? "✅" : "❌"}\n`;
+      auditText += `**Duration:** ${entry.durationMs}ms${entry.region ? ` | **Region:** ${entry.region.toUpperCase()}` : ""}` +
+        `${entry.client ? ` | **Client:** ${entry.client}` : ""}\n`;
+      if (Object.keys(entry.arguments).length > 0) {
+        auditText += `**Arguments:** \`${JSON.stringify(entry.arguments)}\`\n`;
       }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
+      if (entry.error) {
+        auditText += `**Error:** ${entry.error}\n`;
       }
+      entry.requests.forEach((request) => {
+        auditText += `- ${request.method} ${request.path} → ${request.status ?? "no response"} (${request.latencyMs}ms` +
+          `${request.attempts > 1 ? `, ${request.attempts} attempts` : ""})\n`;
+      });
+      auditText += `\n`;
+    });
+
+    return toolResult(auditText, { path: policy.path, enabled: policy.enabled, scanned, entries }, format);
+  }
+);
+
+// Tool: Diagnose
+registerTool(
+  "diagnose",
+  {
+    description: "Check which Tray API tokens work (whoami): for each configured token, or one passed in, probe all three regions and report where it works, the workspaces it can reach and the latency per region",
+    inputSchema: {
+      token: z.string().optional().describe("Only check this token instead of the configured ones"),
+      profile: z.string().optional().describe("Only check the tokens of this configuration profile (default: all profiles and environment variables)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      healthy: z.boolean(),
+      tokens: z.array(tokenDiagnosisSchema),
+    },
+  },
+  async ({ token, profile, format }) => {
+    const client = getHttpClient();
+    if (client?.profile) {
+      if (profile && profile !== client.profile) {
+        return {
+          content: [{ type: "text" as const, text: `HTTP client "${client.name}" can only use profile "${client.profile}"` }],
+          isError: true,
+        };
+      }
+      profile = client.profile;
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${operations.length} operations for ${triggerName} v${triggerVersion}:\n\n${operationsText}${paginationInfo}`,
-        },
-      ],
-    };
+    if (profile && !listProfiles(globalConfig)[profile]) {
+      const available = Object.keys(listProfiles(globalConfig));
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Unknown profile "${profile}". Available profiles: ${available.length > 0 ? available.join(", ") : "none"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const sources: TokenSource[] = token
+      ? [{ sources: ["token argument"], kind: "unknown", token }]
+      : listConfiguredTokens(globalConfig, profile);
+    const diagnoses = await Promise.all(sources.map(diagnoseToken));
+    const healthy = diagnoses.length > 0 && diagnoses.every((diagnosis) => diagnosis.health === "ok");
+
+    return toolResult(formatDiagnoses(diagnoses), { healthy, tokens: diagnoses }, format);
   }
 );
 
 // ================== WORKFLOW MIGRATION TOOLS ==================
 
+// Tray leaves out timestamps it does not have
+function formatDate(value: string | undefined): string {
+  return value ? new Date(value).toLocaleDateString() : "N/A";
+}
+
 // Tool: List Projects
-server.tool(
+registerTool(
   "list-projects",
-  "List all projects in a workspace for workflow migration analysis",
   {
-    token: z.string().describe("Tray API token with project access"),
-    workspaceId: z.string().describe("Workspace ID to list projects from"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all projects in a workspace for workflow migration analysis",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      workspaceId: z.string().describe("Workspace ID to list projects from"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      workspaceId: z.string(),
+      projects: z.array(trayProjectSchema),
+      pagination: paginationSchema,
+    },
   },
-  async ({ token, workspaceId, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/projects?workspaceId=${workspaceId}&limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
-
-    const data = await makeTrayRequest<TrayApiResponse<TrayProject>>(
-      url,
-      token,
-      { region }
-    );
+  async ({ token, workspaceId, limit = 50, cursor, all, maxItems, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to retrieve projects for workspace ${workspaceId}`,
-          },
-        ],
-      };
+    let data: TrayListResult<TrayProject>;
+    try {
+      data = await fetchTrayList<TrayProject>(
+        `/core/v1/projects?workspaceId=${workspaceId}`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve projects for workspace ${workspaceId}`);
     }
 
     const projects = data.elements || [];
     if (projects.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No projects found in workspace ${workspaceId}`,
-          },
-        ],
-      };
+      return toolResult(`No projects found in workspace ${workspaceId}`, { workspaceId, projects, pagination: paginationOf(data) }, format);
     }
 
     const projectsText = projects
@@ -1214,144 +2285,134 @@ server.tool(
         (project) =>
           `**${project.name}** (${project.id})\n` +
           `Description: ${project.description || "N/A"}\n` +
-          `Created: ${new Date(project.createdAt).toLocaleDateString()}\n` +
-          `Updated: ${new Date(project.updatedAt).toLocaleDateString()}\n`
+          `Created: ${formatDate(project.createdAt)}\n` +
+          `Updated: ${formatDate(project.updatedAt)}\n`
       )
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${projects.length} projects in workspace ${workspaceId}:\n\n${projectsText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${projects.length} projects in workspace ${workspaceId}:\n\n${projectsText}${paginationInfo}`, { workspaceId, projects, pagination: paginationOf(data) }, format);
   }
 );
 
 // Tool: List Project Versions
-server.tool(
+registerTool(
   "list-project-versions",
-  "List all versions of a project for workflow migration analysis",
   {
-    token: z.string().describe("Tray API token with project access"),
-    projectId: z.string().describe("Project ID to list versions for"),
-    limit: z.number().optional().describe("Limit the number of results (default: 50)"),
-    cursor: z.string().optional().describe("Cursor for pagination"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "List all versions of a project for workflow migration analysis",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().describe("Project ID to list versions for"),
+      limit: z.number().optional().describe("Limit the number of results (default: 50)"),
+      cursor: z.string().optional().describe("Cursor for pagination"),
+      all: z.boolean().optional().describe("Fetch every page and return all results instead of a single page (default: false)"),
+      maxItems: z.number().optional().describe("Maximum number of results to collect when all is true (default: 1000, max: 5000)"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectId: z.string(),
+      versions: z.array(trayProjectVersionSchema),
+      pagination: paginationSchema,
+    },
   },
-  async ({ token, projectId, limit = 50, cursor, region = "us" }) => {
-    let url = `/core/v1/projects/${projectId}/versions?limit=${limit}`;
-    if (cursor) {
-      url += `&cursor=${cursor}`;
-    }
-
-    const data = await makeTrayRequest<TrayApiResponse<TrayProjectVersion>>(
-      url,
-      token,
-      { region }
-    );
+  async ({ token, projectId, limit = 50, cursor, all, maxItems, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to retrieve versions for project ${projectId}`,
-          },
-        ],
-      };
+    let data: TrayListResult<TrayProjectVersion>;
+    try {
+      data = await fetchTrayList<TrayProjectVersion>(
+        `/core/v1/projects/${projectId}/versions`,
+        auth.token,
+        { region: auth.region, limit, cursor, all, maxItems }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to retrieve versions for project ${projectId}`);
     }
 
     const versions = data.elements || [];
     if (versions.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No versions found for project ${projectId}`,
-          },
-        ],
-      };
+      return toolResult(`No versions found for project ${projectId}`, { projectId, versions, pagination: paginationOf(data) }, format);
     }
 
     const versionsText = versions
       .map(
         (version) =>
           `**Version ${version.versionNumber}** (${version.id})\n` +
-          `Name: ${version.name}\n` +
+          `Name: ${version.name || "N/A"}\n` +
           `Description: ${version.description || "N/A"}\n` +
-          `Status: ${version.status}\n` +
-          `Created: ${new Date(version.createdAt).toLocaleDateString()}\n`
+          `Status: ${version.status || "N/A"}\n` +
+          `Created: ${formatDate(version.createdAt)}\n`
       )
       .join("\n---\n");
 
     // Add pagination info
-    let paginationInfo = "";
-    if (data.cursor) {
-      paginationInfo += `\n\n**Pagination:**\n`;
-      paginationInfo += `Next cursor: ${data.cursor}\n`;
-      if (data.hasMore !== undefined) {
-        paginationInfo += `Has more: ${data.hasMore}\n`;
-      }
-      if (data.totalCount !== undefined) {
-        paginationInfo += `Total count: ${data.totalCount}\n`;
-      }
-    }
+    const paginationInfo = formatPaginationInfo(data);
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Found ${versions.length} versions for project ${projectId}:\n\n${versionsText}${paginationInfo}`,
-        },
-      ],
-    };
+    return toolResult(`Found ${versions.length} versions for project ${projectId}:\n\n${versionsText}${paginationInfo}`, { projectId, versions, pagination: paginationOf(data) }, format);
   }
 );
 
+// The export passed to a migration tool inline, or loaded from exportPath
+async function resolveProjectExport(inline: unknown, exportPath: string | undefined): Promise<any> {
+  if (exportPath !== undefined && inline !== undefined) {
+    throw new Error("Pass either the export JSON or exportPath, not both.");
+  }
+  if (exportPath !== undefined) {
+    return (await loadSnapshot<TrayProjectExport>(exportPath)).data;
+  }
+  if (inline === undefined) {
+    throw new Error("Pass the export JSON, or exportPath with the tray://snapshots URI of an export saved by export-project-version.");
+  }
+  return inline;
+}
+
 // Tool: Export Project Version
-server.tool(
+registerTool(
   "export-project-version",
-  "Export a complete project version with all workflow details and dependencies for migration",
   {
-    token: z.string().describe("Tray API token with project access"),
-    projectId: z.string().describe("Project ID to export"),
-    versionNumber: z.string().describe("Version number to export"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Export a complete project version with all workflow details and dependencies for migration. The export is saved to the local snapshot store and summarized, with a tray://snapshots URI to pass as exportPath to the migration tools",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().describe("Project ID to export"),
+      versionNumber: z.string().describe("Version number to export"),
+      save: z.boolean().optional().describe("Save the export to the local snapshot store and return a compact summary with its path and resource URI (default: true); set to false to return the full export instead"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectId: z.string(),
+      versionNumber: z.string(),
+      export: trayProjectExportSchema.optional(),
+      snapshot: snapshotSchema.optional(),
+      summary: z.object({
+        workflows: z.number(),
+        steps: z.number(),
+        connectors: z.number(),
+        services: z.number(),
+        authentications: z.number(),
+        configKeys: z.number(),
+      }),
+    },
   },
-  async ({ token, projectId, versionNumber, region = "us" }) => {
-    const url = `/core/v1/projects/${projectId}/versions/${versionNumber}/export`;
+  async ({ token, projectId, versionNumber, save = true, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    const data = await makeTrayRequest<TrayProjectExport>(
-      url,
-      token,
-      { region }
-    );
+    const url = `/core/v1/projects/${projectId}/versions/${versionNumber}/export`;
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to export project ${projectId} version ${versionNumber}`,
-          },
-        ],
-      };
+    let data: TrayProjectExport;
+    try {
+      data = await makeTrayRequest<TrayProjectExport>(
+        url,
+        auth.token,
+        { region: auth.region }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to export project ${projectId} version ${versionNumber}`);
     }
 
     // Analyze the exported project structure
@@ -1360,6 +2421,41 @@ server.tool(
     const services = data.services || [];
     const authentications = data.authentications || [];
     const dependencies = data.dependencies || {};
+    const summary = {
+      workflows: workflows.length,
+      steps: workflows.reduce((total, workflow) => total + (workflow.steps?.length || 0), 0),
+      connectors: connectors.length,
+      services: services.length,
+      authentications: authentications.length,
+      configKeys: data.config ? Object.keys(data.config).length : 0,
+    };
+
+    // Saved exports are summarized; the full export stays on disk
+    if (save) {
+      let snapshot: SnapshotEntry & { path: string; uri: string };
+      try {
+        const saved = await saveSnapshot(data, { projectId, versionNumber, region: auth.region });
+        snapshot = { ...saved, uri: snapshotUri(saved) };
+      } catch (error) {
+        return trayErrorResult(error, `Exported project ${projectId} version ${versionNumber} but could not save it to ${getSnapshotPolicy().directory}`);
+      }
+      notifyResourceListChanged();
+
+      let savedText = `# Project Export Saved\n\n`;
+      savedText += `**Project:** ${data.project?.name || "Unknown"} (${projectId})\n`;
+      savedText += `**Version:** ${versionNumber}\n`;
+      savedText += `**File:** ${snapshot.path} (${snapshot.sizeBytes} bytes)\n`;
+      savedText += `**Resource:** ${snapshot.uri}\n`;
+      savedText += `\n**Contents:** ${summary.workflows} workflows, ${summary.steps} steps, ${summary.connectors} connectors, ` +
+        `${summary.services} services, ${summary.authentications} authentications, ${summary.configKeys} config keys\n\n`;
+      savedText += `## Workflows\n`;
+      workflows.forEach((workflow) => {
+        savedText += `- ${workflow.name} (${workflow.id}): ${workflow.steps?.length || 0} steps${workflow.enabled === false ? ", disabled" : ""}\n`;
+      });
+      savedText += `\nPass exportPath: "${snapshot.uri}" to the migration tools instead of the export JSON.`;
+
+      return toolResult(savedText, { projectId, versionNumber, snapshot, summary }, format);
+    }
 
     // Create comprehensive migration analysis
     let analysisText = `# Project Export Analysis\n\n`;
@@ -1372,7 +2468,7 @@ server.tool(
     workflows.forEach((workflow) => {
       analysisText += `### ${workflow.name} (${workflow.id})\n`;
       analysisText += `- **Description:** ${workflow.description || "N/A"}\n`;
-      analysisText += `- **Enabled:** ${workflow.enabled}\n`;
+      analysisText += `- **Enabled:** ${workflow.enabled ?? "Unknown"}\n`;
       analysisText += `- **Steps:** ${workflow.steps?.length || 0}\n`;
       analysisText += `- **Connections:** ${workflow.connections?.length || 0}\n`;
       
@@ -1438,49 +2534,59 @@ server.tool(
     analysisText += `## Full Export Data\n\n`;
     analysisText += `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: analysisText,
-        },
-      ],
-    };
+    return toolResult(analysisText, { projectId, versionNumber, export: data, summary }, format);
   }
 );
 
+// What importing the export into the project needs: authentications, config keys
+async function fetchImportRequirements(projectId: string, exportedProjectJson: unknown, auth: { token: string; region: TrayRegion }): Promise<any> {
+  return makeTrayRequest<any>(
+    `/core/v1/projects/${projectId}/imports/requirements`,
+    auth.token,
+    {
+      method: "POST",
+      body: { exportedProjectJson },
+      region: auth.region,
+      // Requirements analysis does not change the project, so it is safe to retry
+      idempotent: true
+    }
+  );
+}
+
 // Tool: Get Project Import Requirements
-server.tool(
+registerTool(
   "get-project-import-requirements",
-  "Analyze import requirements and dependencies for migrating a project to a new environment",
   {
-    token: z.string().describe("Tray API token with project access"),
-    projectId: z.string().describe("Destination project ID for import analysis"),
-    exportedProjectJson: z.any().describe("Exported project JSON data"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Analyze import requirements and dependencies for migrating a project to a new environment",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().describe("Destination project ID for import analysis"),
+      exportedProjectJson: z.any().optional().describe("Exported project JSON data; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of an export saved by export-project-version; use instead of the export JSON"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectId: z.string(),
+      requirements: z.any(),
+    },
   },
-  async ({ token, projectId, exportedProjectJson, region = "us" }) => {
-    const url = `/core/v1/projects/${projectId}/imports/requirements`;
+  async ({ token, projectId, exportedProjectJson: inlineExport, exportPath, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
 
-    const data = await makeTrayRequest<any>(
-      url,
-      token,
-      { 
-        method: "POST",
-        body: { exportedProjectJson },
-        region 
-      }
-    );
+    let exportedProjectJson: any;
+    try {
+      exportedProjectJson = await resolveProjectExport(inlineExport, exportPath);
+    } catch (error) {
+      return trayErrorResult(error, "Could not load the project export");
+    }
 
-    if (!data) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to analyze import requirements for project ${projectId}`,
-          },
-        ],
-      };
+    let data: any;
+    try {
+      data = await fetchImportRequirements(projectId, exportedProjectJson, auth);
+    } catch (error) {
+      return trayErrorResult(error, `Failed to analyze import requirements for project ${projectId}`);
     }
 
     let requirementsText = `# Import Requirements Analysis\n\n`;
@@ -1538,184 +2644,342 @@ server.tool(
     requirementsText += `\n## Full Requirements Data\n\n`;
     requirementsText += `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: requirementsText,
-        },
-      ],
-    };
+    return toolResult(requirementsText, { projectId, requirements: data }, format);
+  }
+);
+
+// Tool: Plan Import Mappings
+registerTool(
+  "plan-import-mappings",
+  {
+    description: "Build the authenticationResolution, connectorMapping and serviceMapping arrays for preview-project-import and import-project by matching each required authentication to the target's authentications by service, version, scopes and name, with confidence scores and the items that still need a decision",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      requirements: z.any().optional().describe("requirements returned by get-project-import-requirements; or pass projectId with the export to fetch them"),
+      projectId: z.string().optional().describe("Destination project ID, to fetch the requirements"),
+      exportedProjectJson: z.any().optional().describe("Exported project JSON data, to fetch the requirements; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of an export saved by export-project-version, to fetch the requirements"),
+      minConfidence: z.number().min(0).max(1).optional().describe(`Lowest confidence (0-1) for a match to be used (default: ${DEFAULT_MIN_CONFIDENCE})`),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region of the target (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      plan: importMappingPlanSchema,
+    },
+  },
+  async ({ token, requirements, projectId, exportedProjectJson: inlineExport, exportPath, minConfidence = DEFAULT_MIN_CONFIDENCE, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    if (requirements === undefined) {
+      if (!projectId) {
+        return {
+          content: [{ type: "text" as const, text: "Pass the requirements from get-project-import-requirements, or projectId with the export to fetch them." }],
+          isError: true,
+        };
+      }
+      let exportedProjectJson: any;
+      try {
+        exportedProjectJson = await resolveProjectExport(inlineExport, exportPath);
+      } catch (error) {
+        return trayErrorResult(error, "Could not load the project export");
+      }
+      try {
+        requirements = await fetchImportRequirements(projectId, exportedProjectJson, auth);
+      } catch (error) {
+        return trayErrorResult(error, `Failed to analyze import requirements for project ${projectId}`);
+      }
+    }
+
+    const required: AuthenticationRequirement[] = (requirements?.authenticationsRequirements || [])
+      .filter((requirement: any) => requirement && typeof requirement.authExportId === "string");
+
+    let authentications: TrayListResult<TrayAuthentication>;
+    try {
+      authentications = await fetchTrayList<TrayAuthentication>(
+        `/core/v1/authentications`,
+        auth.token,
+        { region: auth.region, limit: 100, all: true, maxItems: MAX_PAGINATED_ITEMS }
+      );
+    } catch (error) {
+      return trayErrorResult(error, "Failed to retrieve authentications from Tray API");
+    }
+
+    const plan = planImportMappings(required, authentications.elements as TargetAuthentication[], minConfidence);
+    return toolResult(formatImportMappingPlan(plan), { plan }, format);
   }
 );
 
 // Tool: Preview Project Import
-server.tool(
+registerTool(
   "preview-project-import",
-  "Preview the impact of importing a project with workflow migration analysis",
   {
-    token: z.string().describe("Tray API token with project access"),
-    projectId: z.string().describe("Destination project ID for import preview"),
-    exportedProjectJson: z.any().describe("Exported project JSON data"),
-    authenticationResolution: z.array(z.any()).optional().describe("Authentication mapping for import"),
-    connectorMapping: z.array(z.any()).optional().describe("Connector mapping for import"),
-    serviceMapping: z.array(z.any()).optional().describe("Service mapping for import"),
-    configOverride: z.any().optional().describe("Configuration overrides"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Preview the impact of importing a project with workflow migration analysis",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().describe("Destination project ID for import preview"),
+      exportedProjectJson: z.any().optional().describe("Exported project JSON data; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of an export saved by export-project-version; use instead of the export JSON"),
+      authenticationResolution: z.array(z.any()).optional().describe("Authentication mapping for import"),
+      connectorMapping: z.array(z.any()).optional().describe("Connector mapping for import"),
+      serviceMapping: z.array(z.any()).optional().describe("Service mapping for import"),
+      configOverride: z.any().optional().describe("Configuration overrides"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectId: z.string(),
+      preview: z.any(),
+      previewHash: z.string(),
+      expiresAt: z.string(),
+    },
   },
-  async ({ token, projectId, exportedProjectJson, authenticationResolution = [], connectorMapping = [], serviceMapping = [], configOverride, region = "us" }) => {
+  async ({ token, projectId, exportedProjectJson: inlineExport, exportPath, authenticationResolution = [], connectorMapping = [], serviceMapping = [], configOverride, region, profile, format }) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let exportedProjectJson: any;
+    try {
+      exportedProjectJson = await resolveProjectExport(inlineExport, exportPath);
+    } catch (error) {
+      return trayErrorResult(error, "Could not load the project export");
+    }
+
     const url = `/core/v1/projects/${projectId}/imports/previews`;
 
-    const requestBody: any = {
+    const requestBody = importRequestBody({
       exportedProjectJson,
       authenticationResolution,
       connectorMapping,
-      serviceMapping
-    };
+      serviceMapping,
+      configOverride
+    });
 
-    if (configOverride) {
-      requestBody.configOverride = configOverride;
+    let data: any;
+    try {
+      data = await makeTrayRequest<any>(
+        url,
+        auth.token,
+        { 
+          method: "POST",
+          body: requestBody,
+          region: auth.region,
+          // Previews do not change the project, so they are safe to retry
+          idempotent: true
+        }
+      );
+    } catch (error) {
+      return trayErrorResult(error, `Failed to preview import for project ${projectId}`);
     }
 
-    const data = await makeTrayRequest<any>(
-      url,
-      token,
-      { 
-        method: "POST",
-        body: requestBody,
-        region 
-      }
-    );
+    // Lets import-project run this exact import while the preview is fresh
+    const { previewHash, expiresAt } = recordImportPreview(importPreviewHash(projectId, auth.region, requestBody, callerFingerprint(auth.token)));
+
+    let previewText = formatImportPreview(data, projectId);
+    previewText += `\n**Preview Hash:** ${previewHash} (pass it to import-project with the same inputs before ${expiresAt})\n`;
+    previewText += `\n## Full Preview Data\n\n`;
+    previewText += `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
 
-    if (!data) {
+    return toolResult(previewText, { projectId, preview: data, previewHash, expiresAt }, format);
+  }
+);
+
+// Tool: Preview Project Import Offline
+registerTool(
+  "preview-project-import-offline",
+  {
+    description: "Predict the impact of importing a project by comparing its export with the target project's export, without calling Tray: workflows created, updated or removed, config keys and authentications that change",
+    inputSchema: {
+      exportedProjectJson: z.any().optional().describe("Exported project JSON data to import; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of the saved export to import; use instead of the export JSON"),
+      targetExportJson: z.any().optional().describe("Export of the destination project's current version; pass this or targetExportPath"),
+      targetExportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of the destination project's saved export"),
+      authenticationResolution: z.array(z.any()).optional().describe("Authentication mapping for import, as passed to preview-project-import ({ authExportId, authId } entries)"),
+      configOverride: z.any().optional().describe("Configuration overrides, applied on top of the imported config"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      preview: offlineImportPreviewSchema,
+    },
+  },
+  async ({ exportedProjectJson: inlineExport, exportPath, targetExportJson, targetExportPath, authenticationResolution = [], configOverride, format }) => {
+    if ((targetExportJson === undefined) === (targetExportPath === undefined)) {
       return {
-        content: [
-          {
-            type: "text",
-            text: `Failed to preview import for project ${projectId}`,
-          },
-        ],
+        content: [{ type: "text" as const, text: "Pass either targetExportJson or targetExportPath for the destination project (but not both)." }],
+        isError: true,
       };
     }
 
-    let previewText = `# Import Preview Analysis\n\n`;
-    previewText += `**Target Project:** ${data.importMetadata?.projectName || projectId}\n`;
-    previewText += `**Source Project:** ${data.importMetadata?.importedFrom?.projectName || "Unknown"}\n`;
-    
-    if (data.importMetadata?.importedFrom?.projectVersion) {
-      previewText += `**Source Version:** ${data.importMetadata.importedFrom.projectVersion}\n`;
+    let source: TrayProjectExport;
+    let target: TrayProjectExport;
+    try {
+      source = await resolveProjectExport(inlineExport, exportPath);
+      target = await resolveProjectExport(targetExportJson, targetExportPath);
+    } catch (error) {
+      return trayErrorResult(error, "Could not load the project export");
     }
-    
-    previewText += `**Preview Date:** ${new Date().toISOString()}\n\n`;
 
-    // Project Impact Analysis
-    if (data.projectImpact) {
-      previewText += `## Project Impact\n\n`;
-      
-      // Workflow Changes
-      if (data.projectImpact.workflows) {
-        const workflows = data.projectImpact.workflows;
-        previewText += `### Workflow Changes\n`;
-        previewText += `- **Created:** ${workflows.created?.length || 0}\n`;
-        previewText += `- **Updated:** ${workflows.updated?.length || 0}\n`;
-        previewText += `- **Removed:** ${workflows.removed?.length || 0}\n\n`;
-        
-        if (workflows.created && workflows.created.length > 0) {
-          previewText += `#### Workflows to be Created:\n`;
-          workflows.created.forEach((workflow: any) => {
-            previewText += `- **${workflow.name}** (from ${workflow.importedFromId})\n`;
-          });
-          previewText += `\n`;
-        }
-        
-        if (workflows.updated && workflows.updated.length > 0) {
-          previewText += `#### Workflows to be Updated:\n`;
-          workflows.updated.forEach((workflow: any) => {
-            previewText += `- **${workflow.name}** (${workflow.id}) ← from ${workflow.importedFromId}\n`;
-          });
-          previewText += `\n`;
-        }
-        
-        if (workflows.removed && workflows.removed.length > 0) {
-          previewText += `#### Workflows to be Removed:\n`;
-          workflows.removed.forEach((workflow: any) => {
-            previewText += `- **${workflow.name}** (${workflow.id})\n`;
-          });
-          previewText += `\n`;
-        }
+    const preview = previewImportOffline(source, target, {
+      authenticationResolution,
+      configOverride,
+      labels: { source: exportPath, target: targetExportPath },
+    });
+    const targetName = target.project?.name || target.project?.id || targetExportPath || "target export";
+    return toolResult(formatImportPreview(preview, targetName), { preview }, format);
+  }
+);
+
+// Tool: Import Project
+registerTool(
+  "import-project",
+  {
+    description: "Import an exported project into a destination project, replacing its workflows. Requires the previewHash from a fresh preview-project-import call with the same inputs; waits for the import to finish and reports the result. Pass importId to keep waiting on an import that was still running",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().describe("Destination project ID to import into"),
+      exportedProjectJson: z.any().optional().describe("Exported project JSON data; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of an export saved by export-project-version; use instead of the export JSON"),
+      authenticationResolution: z.array(z.any()).optional().describe("Authentication mapping for import, as passed to the preview"),
+      connectorMapping: z.array(z.any()).optional().describe("Connector mapping for import, as passed to the preview"),
+      serviceMapping: z.array(z.any()).optional().describe("Service mapping for import, as passed to the preview"),
+      configOverride: z.any().optional().describe("Configuration overrides, as passed to the preview"),
+      previewHash: z.string().optional().describe(`previewHash returned by preview-project-import for these exact inputs, less than ${IMPORT_PREVIEW_TTL_MS / 60000} minutes ago; required to start an import`),
+      importId: z.string().optional().describe("ID of an import started earlier; checks on it instead of starting a new one"),
+      maxWaitSeconds: z.number().int().min(0).max(MAX_IMPORT_WAIT_SECONDS).optional().describe(`How long to wait for the import to finish (default: 120, max: ${MAX_IMPORT_WAIT_SECONDS}); 0 returns right after starting it`),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectId: z.string(),
+      importId: z.string().optional(),
+      status: z.string(),
+      state: z.enum(["running", "succeeded", "failed"]),
+      result: z.any(),
+    },
+  },
+  async ({ token, projectId, exportedProjectJson: inlineExport, exportPath, authenticationResolution = [], connectorMapping = [], serviceMapping = [], configOverride, previewHash, importId, maxWaitSeconds = 120, region, profile, format }, extra) => {
+    const auth = resolveCredentials(token, region, "master", profile);
+
+    let data: any;
+    if (!importId) {
+      if (!previewHash) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: "import-project needs a previewHash. Call preview-project-import with the same inputs, review the preview, then pass its previewHash. Nothing was imported.",
+          }],
+          isError: true,
+        };
       }
-      
-      // Configuration Changes
-      if (data.projectImpact.config) {
-        const config = data.projectImpact.config;
-        previewText += `### Configuration Changes\n`;
-        previewText += `- **Created:** ${config.created?.length || 0}\n`;
-        previewText += `- **Updated:** ${config.updated?.length || 0}\n`;
-        previewText += `- **Removed:** ${config.removed?.length || 0}\n\n`;
+
+      let exportedProjectJson: any;
+      try {
+        exportedProjectJson = await resolveProjectExport(inlineExport, exportPath);
+      } catch (error) {
+        return trayErrorResult(error, "Could not load the project export");
+      }
+
+      const requestBody = importRequestBody({ exportedProjectJson, authenticationResolution, connectorMapping, serviceMapping, configOverride });
+      const rejection = checkImportPreview(previewHash, importPreviewHash(projectId, auth.region, requestBody, callerFingerprint(auth.token)));
+      if (rejection) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${rejection}. Nothing was imported.\n\nCall preview-project-import again with the inputs you want to import and pass its new previewHash.`,
+          }],
+          isError: true,
+        };
+      }
+
+      // Used up before the request, so a retry after an unclear failure cannot import twice
+      consumeImportPreview(previewHash);
+      try {
+        data = await makeTrayRequest<any>(
+          `/core/v1/projects/${projectId}/imports`,
+          auth.token,
+          { method: "POST", body: requestBody, region: auth.region }
+        );
+      } catch (error) {
+        return trayErrorResult(error, `Failed to import into project ${projectId}`);
       }
+      importId = importIdOf(data);
     }
 
-    // Solution Impact (if applicable)
-    if (data.solutionImpact) {
-      previewText += `## Solution Impact\n\n`;
-      previewText += `- **Change Type:** ${data.solutionImpact.changeType}\n`;
-      previewText += `- **Breaking Changes:** ${data.solutionImpact.breakingChanges ? "⚠️ Yes" : "✅ No"}\n`;
-      previewText += `- **Requires New User Input:** ${data.solutionImpact.requiresNewUserInput ? "Yes" : "No"}\n`;
-      previewText += `- **Requires New System Input:** ${data.solutionImpact.requiresNewSystemInput ? "Yes" : "No"}\n\n`;
-      
-      if (data.solutionImpact.breakingChanges) {
-        previewText += `⚠️ **Warning:** This import introduces breaking changes to the solution. Existing solution instances may require manual upgrade.\n\n`;
+    // Poll unless Tray already reported the outcome
+    let polls = 0;
+    if (importId && (!data || (importState(data).state === "running" && maxWaitSeconds > 0))) {
+      try {
+        const finished = await waitForImport(projectId, importId, auth.token, {
+          region: auth.region,
+          maxWaitMs: maxWaitSeconds * 1000,
+          signal: extra.signal,
+        });
+        data = finished.data;
+        polls = finished.polls;
+      } catch (error) {
+        return trayErrorResult(error, `Failed to check import ${importId} of project ${projectId}`);
       }
     }
 
-    // Migration Recommendations
-    previewText += `## Migration Recommendations\n\n`;
-    
-    let hasWarnings = false;
-    
-    if (data.solutionImpact?.breakingChanges) {
-      previewText += `- ⚠️ **Breaking Changes Detected:** Review solution instances before import\n`;
-      hasWarnings = true;
+    const { status, state } = importState(data);
+    if (state === "succeeded") {
+      // The import adds a project version
+      notifyResourceListChanged();
     }
-    
-    if (data.projectImpact?.workflows?.removed?.length > 0) {
-      previewText += `- ⚠️ **Workflows Will Be Removed:** ${data.projectImpact.workflows.removed.length} workflows\n`;
-      hasWarnings = true;
+    let importText = `# Project Import: ${state === "succeeded" ? "✅ Succeeded" : state === "failed" ? "❌ Failed" : "⏳ Still Running"}\n\n`;
+    importText += `**Project:** ${projectId}\n`;
+    if (importId) {
+      importText += `**Import ID:** ${importId}\n`;
     }
-    
-    if (data.solutionImpact?.requiresNewUserInput) {
-      previewText += `- ⚠️ **User Input Required:** Solution will require new end-user configuration\n`;
-      hasWarnings = true;
+    importText += `**Status:** ${status}\n`;
+    if (polls > 0) {
+      importText += `**Status Checks:** ${polls}\n`;
     }
-    
-    if (!hasWarnings) {
-      previewText += `- ✅ **Safe to Import:** No breaking changes or warnings detected\n`;
+    if (state === "running") {
+      importText += importId
+        ? `\nThe import has not finished yet. Call import-project again with projectId and importId "${importId}" to keep waiting.\n`
+        : `\nTray did not return an import ID to follow; check the project in Tray.\n`;
+    } else if (state === "failed") {
+      importText += `\nThe project may be partly imported. Review it in Tray before previewing and importing again.\n`;
     }
+    importText += `\n## Result\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
 
-    previewText += `\n## Full Preview Data\n\n`;
-    previewText += `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: previewText,
-        },
-      ],
-    };
+    return toolResult(importText, { projectId, ...(importId && { importId }), status, state, result: data }, format);
   }
 );
 
 // Tool: Analyze Workflow Dependencies
-server.tool(
+registerTool(
   "analyze-workflow-dependencies",
-  "Analyze workflow dependencies and nested workflow calls for migration planning",
   {
-    token: z.string().describe("Tray API token with project access"),
-    projectExport: z.any().describe("Exported project JSON containing workflow data"),
-    region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: us)"),
+    description: "Analyze workflow dependencies and nested workflow calls for migration planning",
+    inputSchema: {
+      projectExport: z.any().optional().describe("Exported project JSON containing workflow data; pass this or exportPath"),
+      exportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of an export saved by export-project-version; use instead of the export JSON"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      projectName: z.string().optional(),
+      summary: z.object({
+        workflows: z.number(),
+        connectors: z.number(),
+        services: z.number(),
+        authentications: z.number(),
+      }),
+      workflows: z.array(workflowDependencySchema),
+      connectorUsage: z.array(usageSchema),
+      authenticationUsage: z.array(usageSchema),
+    },
   },
-  async ({ token, projectExport, region = "us" }) => {
+  async ({ projectExport: inlineExport, exportPath, format }) => {
+    let projectExport: any;
+    try {
+      projectExport = await resolveProjectExport(inlineExport, exportPath);
+    } catch (error) {
+      return trayErrorResult(error, "Could not load the project export");
+    }
+
     // Analyze the project export for workflow dependencies
     const workflows = projectExport.workflows || [];
     const authentications = projectExport.authentications || [];
@@ -1793,7 +3057,7 @@ server.tool(
     workflows.forEach((workflow: any) => {
       analysisText += `### ${workflow.name} (${workflow.id})\n`;
       analysisText += `- **Description:** ${workflow.description || "N/A"}\n`;
-      analysisText += `- **Enabled:** ${workflow.enabled}\n`;
+      analysisText += `- **Enabled:** ${workflow.enabled ?? "Unknown"}\n`;
       analysisText += `- **Steps:** ${workflow.steps?.length || 0}\n`;
       
       const deps = dependencyMap.get(workflow.id) || new Set();
@@ -1891,26 +3155,367 @@ server.tool(
       analysisText += `\n`;
     }
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: analysisText,
-        },
-      ],
-    };
+    const authName = (authId: string) => authentications.find((a: any) => a.id === authId)?.name;
+    const depsOf = (workflowId: string, prefix: string) =>
+      Array.from(dependencyMap.get(workflowId) || [])
+        .filter(d => d.startsWith(prefix))
+        .map(d => d.slice(prefix.length));
+
+    return toolResult(analysisText, {
+      projectName: projectExport.project?.name,
+      summary: {
+        workflows: workflows.length,
+        connectors: connectors.length,
+        services: services.length,
+        authentications: authentications.length,
+      },
+      workflows: workflows.map((workflow: any) => ({
+        id: workflow.id,
+        name: workflow.name,
+        enabled: workflow.enabled,
+        stepCount: workflow.steps?.length || 0,
+        connectors: depsOf(workflow.id, 'connector:'),
+        triggers: depsOf(workflow.id, 'trigger:'),
+        authentications: depsOf(workflow.id, 'auth:').map(id => ({ id, name: authName(id) })),
+        nestedWorkflows: nestedWorkflows.get(workflow.id) || [],
+      })),
+      connectorUsage: Array.from(connectorUsage.entries()).map(([key, names]) => ({
+        key,
+        workflows: Array.from(names),
+      })),
+      authenticationUsage: Array.from(authenticationUsage.entries()).map(([key, names]) => ({
+        key,
+        name: authName(key),
+        workflows: Array.from(names),
+      })),
+    }, format);
+  }
+);
+
+// A project version to compare: exported live from Tray, or read from a saved export
+async function loadProjectVersion(
+  version: { projectId?: string; versionNumber?: string; exportPath?: string },
+  credentials: () => { token: string; region: TrayRegion }
+): Promise<{ data: TrayProjectExport; label: string }> {
+  if (version.exportPath !== undefined) {
+    const { data } = await loadSnapshot<TrayProjectExport>(version.exportPath);
+    return { data, label: version.exportPath };
+  }
+  if (!version.projectId || !version.versionNumber) {
+    throw new Error("Pass a version number with projectId, or the exportPath of a saved export.");
+  }
+  const auth = credentials();
+  const data = await makeTrayRequest<TrayProjectExport>(
+    `/core/v1/projects/${version.projectId}/versions/${version.versionNumber}/export`,
+    auth.token,
+    { region: auth.region }
+  );
+  return { data, label: `${data.project?.name || version.projectId} v${version.versionNumber}` };
+}
+
+// Tool: Diff Project Versions
+registerTool(
+  "diff-project-versions",
+  {
+    description: "Compare two project versions, live from Tray or from saved exports: added, removed and changed workflows and steps, connections, connector version bumps, authentication changes and config key changes, as a markdown changelog and structured JSON",
+    inputSchema: {
+      token: z.string().optional().describe("Tray API token with project access; defaults to the configured master token"),
+      projectId: z.string().optional().describe("Project ID, when comparing versions exported live from Tray"),
+      fromVersion: z.string().optional().describe("Older version number to export live; pass this or fromExportPath"),
+      toVersion: z.string().optional().describe("Newer version number to export live; pass this or toExportPath"),
+      fromExportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of the older version's saved export"),
+      toExportPath: z.string().optional().describe("tray://snapshots URI, or path in the snapshot store, of the newer version's saved export"),
+      region: z.enum(["us", "eu", "apac"]).optional().describe("Tray region (default: configured region, else us)"),
+      profile: z.string().optional().describe("Named configuration profile to use (default: the active profile)"),
+      format: z.enum(["markdown", "json", "both"]).optional().describe("What to return in the text content: markdown (default), json, or both; structured JSON is always included"),
+    },
+    outputSchema: {
+      diff: projectDiffSchema,
+    },
+  },
+  async ({ token, projectId, fromVersion, toVersion, fromExportPath, toExportPath, region, profile, format }) => {
+    const credentials = () => resolveCredentials(token, region, "master", profile);
+
+    const loaded: Array<{ data: TrayProjectExport; label: string }> = [];
+    for (const [side, versionNumber, exportPath] of [["older", fromVersion, fromExportPath], ["newer", toVersion, toExportPath]]) {
+      if ((versionNumber === undefined) === (exportPath === undefined)) {
+        return {
+          content: [{ type: "text" as const, text: `Pass either a version number or an export path for the ${side} version (but not both).` }],
+          isError: true,
+        };
+      }
+      try {
+        loaded.push(await loadProjectVersion({ projectId, versionNumber, exportPath }, credentials));
+      } catch (error) {
+        return trayErrorResult(error, `Failed to load the ${side} version`);
+      }
+    }
+
+    const [from, to] = loaded;
+    const diff = diffProjectExports(from.data, to.data, { from: from.label, to: to.label });
+    return toolResult(formatProjectDiff(diff), { diff }, format);
   }
 );
 
 // ================== END WORKFLOW MIGRATION TOOLS ==================
 
+// ================== RESOURCES ==================
+// Resources let MCP clients browse Tray data and attach it as context. They are read
+// with the active profile's master token and region, using the same helpers as the tools.
+
+// Read a resource with the active profile's credentials, reporting Tray failures with a hint
+async function readTrayResource<T>(summary: string, read: (token: string, region: TrayRegion) => Promise<T>): Promise<T> {
+  const auth = resolveCredentials(undefined, undefined, "master");
+  try {
+    return await read(auth.token, auth.region);
+  } catch (error) {
+    throw trayResourceError(error, summary);
+  }
+}
+
+// Listing is best effort: a missing token or Tray outage should not hide the other resources
+async function listTrayResources(
+  summary: string,
+  list: (token: string, region: TrayRegion) => Promise<ListResourcesResult["resources"]>
+): Promise<ListResourcesResult> {
+  try {
+    return { resources: await readTrayResource(summary, list) };
+  } catch (error) {
+    console.error(redactText(error instanceof Error ? error.message : String(error)));
+    return { resources: [] };
+  }
+}
+
+// Resource: Connectors
+registerResource(
+  "connectors",
+  "tray://connectors",
+  {
+    title: "Tray connectors",
+    description: "Every connector in Tray's connector library",
+    mimeType: "application/json",
+  },
+  async (uri) => readTrayResource("Failed to read connectors", async (token, region) => {
+    const data = await fetchTrayList<TrayConnector>(`/core/v1/connectors`, token, { region, limit: 100, all: true, cache: {} });
+    return jsonResource(uri, { connectors: data.elements, pagination: paginationOf(data) });
+  })
+);
+
+// Resource: Connector Operations
+registerResource(
+  "connector-operations",
+  new ResourceTemplate("tray://connectors/{name}/{version}/operations", {
+    list: () => listTrayResources("Failed to list connector resources", async (token, region) => {
+      const data = await fetchTrayList<TrayConnector>(`/core/v1/connectors`, token, { region, limit: 100, all: true, cache: {} });
+      return data.elements.map((connector) => ({
+        uri: `tray://connectors/${connector.name}/${connector.version}/operations`,
+        name: `${connector.title} ${connector.version} operations`,
+        description: connector.description || undefined,
+        mimeType: "application/json",
+      }));
+    }),
+  }),
+  {
+    title: "Connector operations",
+    description: "Operations of a connector version, with their input and output schemas",
+    mimeType: "application/json",
+  },
+  async (uri, { name, version }) => readTrayResource(`Failed to read operations for connector ${name} v${version}`, async (token, region) => {
+    const data = await fetchTrayList<TrayConnectorOperation>(
+      `/core/v1/connectors/${name}/versions/${version}/operations`,
+      token,
+      { region, limit: 100, all: true, cache: {} }
+    );
+    return jsonResource(uri, { connectorName: name, connectorVersion: version, operations: data.elements });
+  })
+);
+
+// Resource: Triggers
+registerResource(
+  "triggers",
+  "tray://triggers",
+  {
+    title: "Tray triggers",
+    description: "Every trigger available in Tray",
+    mimeType: "application/json",
+  },
+  async (uri) => readTrayResource("Failed to read triggers", async (token, region) => {
+    const data = await fetchTrayList<TrayTrigger>(`/core/v1/triggers`, token, { region, limit: 100, all: true, cache: {} });
+    return jsonResource(uri, { triggers: data.elements, pagination: paginationOf(data) });
+  })
+);
+
+// Resource: Trigger Operations
+registerResource(
+  "trigger-operations",
+  new ResourceTemplate("tray://triggers/{name}/{version}/operations", {
+    list: () => listTrayResources("Failed to list trigger resources", async (token, region) => {
+      const data = await fetchTrayList<TrayTrigger>(`/core/v1/triggers`, token, { region, limit: 100, all: true, cache: {} });
+      return data.elements.map((trigger) => ({
+        uri: `tray://triggers/${trigger.name}/${trigger.version}/operations`,
+        name: `${trigger.title} ${trigger.version} operations`,
+        description: trigger.description || undefined,
+        mimeType: "application/json",
+      }));
+    }),
+  }),
+  {
+    title: "Trigger operations",
+    description: "Operations of a trigger version, with their input and output schemas",
+    mimeType: "application/json",
+  },
+  async (uri, { name, version }) => readTrayResource(`Failed to read operations for trigger ${name} v${version}`, async (token, region) => {
+    const data = await fetchTrayList<TrayConnectorOperation>(
+      `/core/v1/triggers/${name}/versions/${version}/operations`,
+      token,
+      { region, limit: 100, all: true, cache: {} }
+    );
+    return jsonResource(uri, { triggerName: name, triggerVersion: version, operations: data.elements });
+  })
+);
+
+// Resource: Workspaces
+registerResource(
+  "workspaces",
+  "tray://workspaces",
+  {
+    title: "Tray workspaces",
+    description: "Workspaces the configured token can access",
+    mimeType: "application/json",
+  },
+  async (uri) => readTrayResource("Failed to read workspaces", async (token, region) => {
+    const data = await fetchTrayList<TrayWorkspace>(`/core/v1/workspaces`, token, { region, limit: 100, all: true });
+    return jsonResource(uri, { workspaces: data.elements, pagination: paginationOf(data) });
+  })
+);
+
+// Resource: Workspace Projects
+registerResource(
+  "workspace-projects",
+  new ResourceTemplate("tray://workspaces/{workspaceId}/projects", {
+    list: () => listTrayResources("Failed to list workspace resources", async (token, region) => {
+      const data = await fetchTrayList<TrayWorkspace>(`/core/v1/workspaces`, token, { region, limit: 100, all: true });
+      return data.elements.map((workspace) => ({
+        uri: `tray://workspaces/${workspace.id}/projects`,
+        name: `${workspace.name} projects`,
+        description: workspace.description || undefined,
+        mimeType: "application/json",
+      }));
+    }),
+  }),
+  {
+    title: "Workspace projects",
+    description: "Projects in a workspace",
+    mimeType: "application/json",
+  },
+  async (uri, { workspaceId }) => readTrayResource(`Failed to read projects for workspace ${workspaceId}`, async (token, region) => {
+    const data = await fetchTrayList<TrayProject>(`/core/v1/projects?workspaceId=${workspaceId}`, token, { region, limit: 100, all: true });
+    return jsonResource(uri, { workspaceId, projects: data.elements, pagination: paginationOf(data) });
+  })
+);
+
+// Resource: Project Versions
+// Not listed: enumerating them would need a request per project in every workspace
+registerResource(
+  "project-versions",
+  new ResourceTemplate("tray://projects/{projectId}/versions", { list: undefined }),
+  {
+    title: "Project versions",
+    description: "Versions of a project",
+    mimeType: "application/json",
+  },
+  async (uri, { projectId }) => readTrayResource(`Failed to read versions for project ${projectId}`, async (token, region) => {
+    const data = await fetchTrayList<TrayProjectVersion>(`/core/v1/projects/${projectId}/versions`, token, { region, limit: 100, all: true });
+    return jsonResource(uri, { projectId, versions: data.elements, pagination: paginationOf(data) });
+  })
+);
+
+// Resource: Project Version Export
+registerResource(
+  "project-version-export",
+  new ResourceTemplate("tray://projects/{projectId}/versions/{versionNumber}/export", { list: undefined }),
+  {
+    title: "Project version export",
+    description: "Complete export of a project version, with workflows and dependencies",
+    mimeType: "application/json",
+  },
+  async (uri, { projectId, versionNumber }) => readTrayResource(`Failed to export project ${projectId} version ${versionNumber}`, async (token, region) => {
+    const data = await makeTrayRequest<TrayProjectExport>(
+      `/core/v1/projects/${projectId}/versions/${versionNumber}/export`,
+      token,
+      { region }
+    );
+    return jsonResource(uri, data);
+  })
+);
+
+// Resource: Saved Exports
+registerResource(
+  "snapshots",
+  "tray://snapshots",
+  {
+    title: "Saved project exports",
+    description: "Manifest of the project exports saved by export-project-version, newest first",
+    mimeType: "application/json",
+  },
+  async (uri) => jsonResource(uri, {
+    directory: getSnapshotPolicy().directory,
+    snapshots: (await listSnapshots()).map((entry) => ({ ...entry, uri: snapshotUri(entry) })),
+  })
+);
+
+// Resource: Saved Export
+registerResource(
+  "snapshot",
+  new ResourceTemplate("tray://snapshots/{projectId}/{versionNumber}/{timestamp}", {
+    list: async () => ({
+      resources: (await listSnapshots()).map((entry) => ({
+        uri: snapshotUri(entry),
+        name: `${entry.projectName || entry.projectId} v${entry.versionNumber} (${entry.savedAt})`,
+        mimeType: "application/json",
+      })),
+    }),
+  }),
+  {
+    title: "Saved project export",
+    description: "A project export saved by export-project-version; \"latest\" as the timestamp reads the newest one of a version",
+    mimeType: "application/json",
+  },
+  async (uri) => jsonResource(uri, (await loadSnapshot(uri.href)).data)
+);
+
+// ================== END RESOURCES ==================
+
 // Main function to run the server
 async function startServer() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Tray MCP Server running on stdio");
 }
 
+// Check the HTTP clients before serving them
+function checkHttpClients(policy: HttpTransportPolicy) {
+  if (policy.clients.length === 0) {
+    throw new Error(
+      `The HTTP transport needs at least one client token: set TRAY_HTTP_AUTH_TOKEN, ` +
+      `or add clients to the "http" block of ${getConfigPath()}`
+    );
+  }
+  policy.clients.forEach((client, index) => {
+    if (!client.name || !client.token) {
+      throw new Error(`HTTP client #${index + 1} needs a name and a token`);
+    }
+    if (client.profile && !getProfile(globalConfig, client.profile)) {
+      throw new Error(`HTTP client "${client.name}" uses unknown profile "${client.profile}"`);
+    }
+  });
+  const names = policy.clients.map((client) => client.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate HTTP client name "${duplicate}"`);
+  }
+}
+
 // Main execution function
 async function main() {
   try {
@@ -1920,11 +3525,23 @@ async function main() {
       return; // Exit if setup or help was requested
     }
 
-    // Load configuration
-    const globalConfig = await loadConfiguration();
+    // Load configuration for the profile selected on the command line or environment
+    const args = process.argv.slice(2);
+    globalConfig = await loadConfiguration(getArgValue(args, '--profile') || process.env.TRAY_PROFILE);
+    configureRedaction(loadRedactionOverrides(globalConfig));
+    configureRequestPolicy(loadRequestPolicyOverrides(globalConfig));
+    configureCachePolicy(loadCachePolicyOverrides(globalConfig));
+    configureAuditPolicy(loadAuditOverrides(globalConfig));
+    configureSnapshotStore(loadSnapshotOverrides(globalConfig));
+    logToolAccess(configureToolAccess(loadToolAccessOverrides(globalConfig, args)));
+
+    const transport = getArgValue(args, '--transport') || process.env.TRAY_TRANSPORT || 'stdio';
+    if (transport !== 'stdio' && transport !== 'http') {
+      throw new Error(`Invalid transport "${transport}". Use stdio or http.`);
+    }
 
     // Check if we have any tokens configured
-    if (!globalConfig.masterToken && !globalConfig.userToken) {
+    if (!hasTokens(activeProfile) && !Object.values(listProfiles(globalConfig)).some(hasTokens)) {
       console.error(`
 ⚠️  No Tray API tokens found!
 
@@ -1949,10 +3566,16 @@ For more information: https://github.com/guilherme-x/tray-mcp-server
     }
 
     // Start the MCP server
-    await startServer();
+    if (transport === 'http') {
+      const httpPolicy = configureHttpTransport(loadHttpOverrides(globalConfig, args));
+      checkHttpClients(httpPolicy);
+      await startHttpServer(createServer);
+    } else {
+      await startServer();
+    }
     
   } catch (error) {
-    console.error("Fatal error in main():", error);
+    console.error("Fatal error in main():", redactText(error instanceof Error ? error.message : String(error)));
     process.exit(1);
   }
 }
@@ -0,0 +1,270 @@
+import { tokenize } from './search.js';
+
+// Matches import authentication requirements to the target's authentications for plan-import-mappings
+
+// An entry of authenticationsRequirements from /imports/requirements
+export interface AuthenticationRequirement {
+  authExportId: string;
+  title?: string;
+  service?: { name?: string; version?: string | number };
+  scopes?: string[];
+  resolvedAuthentication?: { id: string; title?: string };
+}
+
+// An authentication in the target, as list-authentications returns it
+export interface TargetAuthentication {
+  id: string;
+  name: string;
+  scopes?: string[] | null;
+  service?: { name?: string; version?: string | number };
+}
+
+export interface ServiceRef {
+  name: string;
+  version: string;
+}
+
+export interface AuthenticationCandidate {
+  authId: string;
+  name: string;
+  confidence: number;
+  reasons: string[];
+  // Set when the authentication is for another version of the service
+  serviceMapping?: { source: ServiceRef; target: ServiceRef };
+}
+
+export interface AuthenticationMatch {
+  authExportId: string;
+  title: string;
+  service?: ServiceRef;
+  scopes: string[];
+  // matched: confident enough to use; ambiguous: two candidates are about as good; unresolved: no good candidate
+  status: 'matched' | 'ambiguous' | 'unresolved';
+  authId?: string;
+  authName?: string;
+  confidence: number;
+  reasons: string[];
+  // Best candidates first, at most three
+  candidates: AuthenticationCandidate[];
+}
+
+export interface ImportMappingPlan {
+  authenticationResolution: Array<{ authExportId: string; authId: string }>;
+  connectorMapping: unknown[];
+  serviceMapping: Array<{ source: ServiceRef; target: ServiceRef }>;
+  matches: AuthenticationMatch[];
+  unresolved: number;
+}
+
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// Candidates closer than this to the best one make the match ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// Without service details on both sides, a candidate needs at least this name similarity
+const MIN_NAME_SIMILARITY = 0.3;
+
+// Dice coefficient of two sets
+function dice<T>(a: Set<T>, b: Set<T>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+function bigrams(text: string): Set<string> {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const grams = new Set<string>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    grams.add(normalized.slice(i, i + 2));
+  }
+  return grams;
+}
+
+// 0..1: the better of word overlap, which ignores word order, and character bigram overlap,
+// which tolerates abbreviations and typos
+export function nameSimilarity(a: string, b: string): number {
+  return Math.max(dice(new Set(tokenize(a)), new Set(tokenize(b))), dice(bigrams(a), bigrams(b)));
+}
+
+function serviceRef(service: { name?: string; version?: string | number } | undefined): ServiceRef | undefined {
+  return service?.name ? { name: service.name, version: String(service.version ?? '') } : undefined;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Score one target authentication for a requirement. Service counts most, then version, scopes
+// and name. Authentications for another service, or of unknown service with a dissimilar name,
+// are not candidates.
+function scoreCandidate(requirement: AuthenticationRequirement, authentication: TargetAuthentication): AuthenticationCandidate | undefined {
+  const required = serviceRef(requirement.service);
+  const offered = serviceRef(authentication.service);
+  const reasons: string[] = [];
+  let score = 0;
+  let serviceMapping: AuthenticationCandidate['serviceMapping'];
+
+  if (required && offered) {
+    if (required.name !== offered.name) {
+      return undefined;
+    }
+    score += 0.4;
+    if (required.version === offered.version) {
+      score += 0.2;
+      reasons.push(`same service ${offered.name} v${offered.version}`);
+    } else {
+      score += 0.1;
+      reasons.push(`service ${offered.name} v${offered.version} instead of v${required.version}; needs a service mapping`);
+      serviceMapping = { source: required, target: offered };
+    }
+  } else {
+    // Without service details on both sides only the name and scopes can be compared
+    score += 0.2;
+    reasons.push('service not known; matched on name and scopes only');
+  }
+
+  const requiredScopes = requirement.scopes || [];
+  const offeredScopes = new Set(authentication.scopes || []);
+  const covered = requiredScopes.filter((scope) => offeredScopes.has(scope));
+  const coverage = requiredScopes.length === 0 ? 1 : covered.length / requiredScopes.length;
+  score += 0.2 * coverage;
+  if (requiredScopes.length > 0) {
+    const missing = requiredScopes.filter((scope) => !offeredScopes.has(scope));
+    reasons.push(missing.length === 0 ? 'has every required scope' : `missing scopes: ${missing.join(', ')}`);
+  }
+
+  const similarity = nameSimilarity(requirement.title || '', authentication.name);
+  if (!(required && offered) && similarity < MIN_NAME_SIMILARITY) {
+    return undefined;
+  }
+  score += 0.2 * similarity;
+  reasons.push(`name similarity ${round(similarity)}`);
+
+  return {
+    authId: authentication.id,
+    name: authentication.name,
+    confidence: round(score),
+    reasons,
+    ...(serviceMapping && { serviceMapping }),
+  };
+}
+
+// Pick an authentication in the target for each requirement and build the mapping arrays
+// preview-project-import and import-project take. Requirements Tray already resolved keep
+// Tray's choice.
+export function planImportMappings(
+  requirements: AuthenticationRequirement[],
+  authentications: TargetAuthentication[],
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE
+): ImportMappingPlan {
+  const matches = requirements.map((requirement): AuthenticationMatch => {
+    const base = {
+      authExportId: requirement.authExportId,
+      title: requirement.title || requirement.authExportId,
+      ...(serviceRef(requirement.service) && { service: serviceRef(requirement.service) }),
+      scopes: requirement.scopes || [],
+    };
+
+    if (requirement.resolvedAuthentication) {
+      return {
+        ...base,
+        status: 'matched',
+        authId: requirement.resolvedAuthentication.id,
+        authName: requirement.resolvedAuthentication.title,
+        confidence: 1,
+        reasons: ['resolved by Tray'],
+        candidates: [],
+      };
+    }
+
+    const candidates = authentications
+      .map((authentication) => scoreCandidate(requirement, authentication))
+      .filter((candidate): candidate is AuthenticationCandidate => candidate !== undefined)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 3);
+    const [best, runnerUp] = candidates;
+
+    if (!best || best.confidence < minConfidence) {
+      return {
+        ...base,
+        status: 'unresolved',
+        confidence: best?.confidence || 0,
+        reasons: [best ? `best candidate scores below ${minConfidence}` : 'no authentication for this service in the target'],
+        candidates,
+      };
+    }
+    if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+      return {
+        ...base,
+        status: 'ambiguous',
+        confidence: best.confidence,
+        reasons: [`${best.name} and ${runnerUp.name} match about equally well`],
+        candidates,
+      };
+    }
+    return { ...base, status: 'matched', authId: best.authId, authName: best.name, confidence: best.confidence, reasons: best.reasons, candidates };
+  });
+
+  const serviceMapping: ImportMappingPlan['serviceMapping'] = [];
+  matches.forEach((match) => {
+    const mapping = match.status === 'matched' ? match.candidates.find((candidate) => candidate.authId === match.authId)?.serviceMapping : undefined;
+    if (mapping && !serviceMapping.some((existing) => JSON.stringify(existing) === JSON.stringify(mapping))) {
+      serviceMapping.push(mapping);
+    }
+  });
+
+  return {
+    authenticationResolution: matches
+      .filter((match) => match.status === 'matched' && match.authId)
+      .map((match) => ({ authExportId: match.authExportId, authId: match.authId! })),
+    // Authentications say nothing about connector versions, so connectors are left as exported
+    connectorMapping: [],
+    serviceMapping,
+    matches,
+    unresolved: matches.filter((match) => match.status !== 'matched').length,
+  };
+}
+
+const STATUS_LABELS: Record<AuthenticationMatch['status'], string> = {
+  matched: '✅ Matched',
+  ambiguous: '⚠️ Ambiguous',
+  unresolved: '❌ Unresolved',
+};
+
+// Markdown report of a plan, ending with the arrays to pass to the import tools
+export function formatImportMappingPlan(plan: ImportMappingPlan): string {
+  let text = `# Import Mapping Plan\n\n`;
+  text += `**Authentications:** ${plan.matches.length - plan.unresolved} matched, ${plan.unresolved} need attention\n\n`;
+
+  plan.matches.forEach((match) => {
+    text += `## ${match.title} — ${STATUS_LABELS[match.status]}\n`;
+    text += `- **Export ID:** ${match.authExportId}\n`;
+    if (match.service) {
+      text += `- **Service:** ${match.service.name} v${match.service.version}\n`;
+    }
+    if (match.authId) {
+      text += `- **Authentication:** ${match.authName || match.authId} (${match.authId}), confidence ${match.confidence}\n`;
+    }
+    text += `- **Why:** ${match.reasons.join('; ')}\n`;
+    if (match.status !== 'matched' && match.candidates.length > 0) {
+      text += `- **Candidates:** ${match.candidates.map((candidate) => `${candidate.name} (${candidate.authId}, ${candidate.confidence})`).join(', ')}\n`;
+    }
+    if (match.status === 'unresolved' && match.candidates.length === 0) {
+      text += `- **Next step:** create an authentication for this service with create-authentication\n`;
+    }
+    text += `\n`;
+  });
+
+  text += `## Mappings\n\n`;
+  text += `Pass these to preview-project-import and import-project${plan.unresolved > 0 ? ' once the items above are resolved' : ''}:\n\n`;
+  text += `\`\`\`json\n${JSON.stringify({
+    authenticationResolution: plan.authenticationResolution,
+    connectorMapping: plan.connectorMapping,
+    serviceMapping: plan.serviceMapping,
+  }, null, 2)}\n\`\`\`\n`;
+  return text;
+}
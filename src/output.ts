@@ -0,0 +1,52 @@
+import type { TrayListResult } from './pagination.js';
+import { redactValue } from './redaction.js';
+
+export type OutputFormat = "markdown" | "json" | "both";
+
+// Build a tool result carrying structuredContent, with the text part chosen by `format`
+export function toolResult<T extends Record<string, unknown>>(
+  markdown: string,
+  structuredContent: T,
+  format: OutputFormat = "markdown"
+) {
+  let text = markdown;
+  if (format === "json") {
+    text = JSON.stringify(structuredContent, null, 2);
+  } else if (format === "both") {
+    text = `${markdown}\n\n\`\`\`json\n${JSON.stringify(structuredContent, null, 2)}\n\`\`\``;
+  }
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+// Pagination details for structured list results
+export function paginationOf(data: TrayListResult<unknown>) {
+  return {
+    cursor: data.cursor,
+    hasMore: data.hasMore,
+    totalCount: data.totalCount,
+    pagesFetched: data.pagesFetched,
+    truncated: data.truncated,
+  };
+}
+
+// Contents of a resources/read result holding a JSON document
+export function jsonResource(uri: URL, data: unknown) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: "application/json",
+        text: JSON.stringify(redactValue(data), null, 2),
+      },
+    ],
+  };
+}
@@ -0,0 +1,190 @@
+import type { TrayRegion } from './config.js';
+import { TrayApiResponse, makeTrayRequest } from './client.js';
+import { CacheInfo, cachedTrayRequest } from './cache.js';
+
+export const DEFAULT_MAX_ITEMS = 1000;
+// Hard ceiling for "fetch all" mode so a single tool call cannot flood the context window
+export const MAX_PAGINATED_ITEMS = 5000;
+
+export interface TrayListOptions {
+  region: TrayRegion;
+  limit: number;
+  cursor?: string;
+  all?: boolean;
+  maxItems?: number;
+  // Read pages through the on-disk catalog cache; `refresh` skips fresh entries
+  cache?: { refresh?: boolean };
+}
+
+// A page, or several pages merged together in "fetch all" mode
+export interface TrayListResult<T> extends TrayApiResponse<T> {
+  elements: T[];
+  pagesFetched: number;
+  // True when "fetch all" stopped at maxItems while Tray still had more results
+  truncated: boolean;
+  // Set when the pages were read through the cache. With several pages, this reports the
+  // oldest fetch time, and "stale" if any page was served stale.
+  cache?: CacheInfo;
+}
+
+function withQuery(path: string, params: Record<string, string | number | undefined>): string {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  if (!query) {
+    return path;
+  }
+  return `${path}${path.includes('?') ? '&' : '?'}${query}`;
+}
+
+async function fetchPage<T>(
+  url: string,
+  token: string,
+  options: { region: TrayRegion; cache?: { refresh?: boolean } }
+): Promise<{ page: TrayApiResponse<T>; cache?: CacheInfo }> {
+  if (options.cache) {
+    const { data, cache } = await cachedTrayRequest<TrayApiResponse<T>>(url, token, {
+      region: options.region,
+      refresh: options.cache.refresh,
+    });
+    return { page: data, cache };
+  }
+  return { page: await makeTrayRequest<TrayApiResponse<T>>(url, token, { region: options.region }) };
+}
+
+async function* paginatePages<T>(
+  path: string,
+  token: string,
+  // maxItems shrinks the last page's limit, so the page ends, and its cursor continues, at maxItems
+  options: { region: TrayRegion; limit: number; cursor?: string; maxItems?: number; cache?: { refresh?: boolean } }
+): AsyncGenerator<{ page: TrayApiResponse<T>; cache?: CacheInfo }> {
+  let cursor = options.cursor;
+  let fetched = 0;
+  const seenCursors = new Set<string>();
+
+  while (true) {
+    const limit = options.maxItems !== undefined ? Math.min(options.limit, options.maxItems - fetched) : options.limit;
+    const result = await fetchPage<T>(withQuery(path, { limit, cursor }), token, options);
+    yield result;
+
+    const page = result.page;
+    const elements = page.elements || [];
+    fetched += elements.length;
+    if (options.maxItems !== undefined && fetched >= options.maxItems) {
+      return;
+    }
+    // Stop on an empty page or a repeated cursor as well, in case hasMore is missing or wrong
+    if (!page.cursor || page.hasMore === false || elements.length === 0 || seenCursors.has(page.cursor)) {
+      return;
+    }
+    seenCursors.add(page.cursor);
+    cursor = page.cursor;
+  }
+}
+
+// Iterate over the pages of a Tray list endpoint, following cursor/hasMore until exhausted
+export async function* paginateTray<T>(
+  path: string,
+  token: string,
+  options: { region: TrayRegion; limit: number; cursor?: string; cache?: { refresh?: boolean } }
+): AsyncGenerator<TrayApiResponse<T>> {
+  for await (const { page } of paginatePages<T>(path, token, options)) {
+    yield page;
+  }
+}
+
+// Combine the cache details of several pages into one
+function mergeCacheInfo(infos: CacheInfo[]): CacheInfo | undefined {
+  if (infos.length === 0) {
+    return undefined;
+  }
+  const oldest = infos.reduce((a, b) => (b.fetchedAt < a.fetchedAt ? b : a));
+  const stale = infos.some((info) => info.source === 'stale');
+  return { source: stale ? 'stale' : oldest.source, fetchedAt: oldest.fetchedAt };
+}
+
+// Fetch one page, or every page until maxItems is reached when `all` is set
+export async function fetchTrayList<T>(
+  path: string,
+  token: string,
+  options: TrayListOptions
+): Promise<TrayListResult<T>> {
+  if (!options.all) {
+    const { page, cache } = await fetchPage<T>(
+      withQuery(path, { limit: options.limit, cursor: options.cursor }),
+      token,
+      options
+    );
+    return { ...page, elements: page.elements || [], pagesFetched: 1, truncated: false, cache };
+  }
+
+  const maxItems = Math.min(Math.max(1, options.maxItems ?? DEFAULT_MAX_ITEMS), MAX_PAGINATED_ITEMS);
+  const elements: T[] = [];
+  const cacheInfos: CacheInfo[] = [];
+  let lastPage: TrayApiResponse<T> = {};
+  let pagesFetched = 0;
+
+  for await (const { page, cache } of paginatePages<T>(path, token, { ...options, maxItems })) {
+    pagesFetched++;
+    lastPage = page;
+    // Tray may return more than the limit asked for; never go past maxItems
+    elements.push(...(page.elements || []).slice(0, maxItems - elements.length));
+    if (cache) {
+      cacheInfos.push(cache);
+    }
+    if (elements.length >= maxItems) {
+      break;
+    }
+  }
+
+  const truncated = elements.length >= maxItems && !!lastPage.cursor && lastPage.hasMore !== false;
+
+  // The last page is requested with the remaining budget as its limit, so the returned cursor
+  // continues exactly where the results end
+  return {
+    ...lastPage,
+    elements,
+    // Only hand back a cursor when there is more to fetch
+    cursor: truncated ? lastPage.cursor : undefined,
+    hasMore: truncated,
+    pagesFetched,
+    truncated,
+    cache: mergeCacheInfo(cacheInfos),
+  };
+}
+
+// Markdown footer describing where a list result stops and how to continue
+export function formatPaginationInfo(data: TrayApiResponse & Partial<TrayListResult<unknown>>): string {
+  let paginationInfo = "";
+  if (data.cursor || (data.pagesFetched ?? 0) > 1) {
+    paginationInfo += `\n\n**Pagination:**\n`;
+    if ((data.pagesFetched ?? 0) > 1) {
+      paginationInfo += `Pages fetched: ${data.pagesFetched}\n`;
+    }
+    if (data.cursor) {
+      paginationInfo += `Next cursor: ${data.cursor}\n`;
+    }
+    if (data.hasMore !== undefined) {
+      paginationInfo += `Has more: ${data.hasMore}\n`;
+    }
+    if (data.totalCount !== undefined) {
+      paginationInfo += `Total count: ${data.totalCount}\n`;
+    }
+    if (data.truncated) {
+      paginationInfo += `⚠️ Stopped at ${data.elements?.length} items. Raise maxItems (up to ${MAX_PAGINATED_ITEMS}) or continue from the cursor above.\n`;
+    }
+  }
+  return paginationInfo;
+}
+
+// Markdown note saying when cached data was fetched, so the agent knows it may be out of date
+export function formatCacheInfo(cache?: CacheInfo): string {
+  if (!cache || cache.source === 'network') {
+    return "";
+  }
+  if (cache.source === 'stale') {
+    return `\n\n⚠️ Tray is unreachable; showing cached data from ${cache.fetchedAt}. Use refresh: true to retry.`;
+  }
+  return `\n\n_Served from local cache (fetched ${cache.fetchedAt}). Use refresh: true for fresh data._`;
+}
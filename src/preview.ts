@@ -0,0 +1,251 @@
+import { DiffableExport, diffKeys, diffWorkflow, matchItems } from './diff.js';
+
+// Import previews: the offline engine behind preview-project-import-offline, and the markdown
+// report shared with preview-project-import
+
+export interface ImportableExport extends DiffableExport {
+  project?: { name?: string };
+}
+
+export interface ImportPreviewWorkflow {
+  // The target workflow; absent for workflows the import creates
+  id?: string;
+  name: string;
+  // The source workflow it comes from; absent for removed workflows
+  importedFromId?: string;
+  matchedBy?: 'id' | 'name';
+  changes?: string[];
+}
+
+// Same projectImpact shape as Tray's /imports/previews response, plus the authentication changes
+// Tray reports only when the import runs
+export interface OfflineImportPreview {
+  offline: true;
+  importMetadata: {
+    projectName?: string;
+    importedFrom: { projectName?: string; projectVersion?: string };
+  };
+  projectImpact: {
+    workflows: { created: ImportPreviewWorkflow[]; updated: ImportPreviewWorkflow[]; removed: ImportPreviewWorkflow[] };
+    // Keys only: config values can be secrets
+    config: { created: string[]; updated: string[]; removed: string[] };
+  };
+  authenticationImpact: {
+    // Source authentications mapped by authenticationResolution, or present in the target under the same id
+    resolved: Array<{ authExportId: string; name: string; authId: string; via: 'resolution' | 'target' }>;
+    // Source authentications the import would fail on without a resolution
+    unresolved: Array<{ authExportId: string; name: string }>;
+    // Target authentications the imported workflows no longer use
+    unused: Array<{ id: string; name: string }>;
+  };
+}
+
+export interface OfflineImportOptions {
+  authenticationResolution?: unknown[];
+  configOverride?: unknown;
+  // Names for exports without a project name
+  labels?: { source?: string; target?: string };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Predict what importing source into the project exported as target would do. An import
+// replaces the target's workflows, so workflows are matched the way diff-project-versions
+// matches them: by id, then by unique name.
+export function previewImportOffline(
+  source: ImportableExport,
+  target: ImportableExport,
+  options: OfflineImportOptions = {}
+): OfflineImportPreview {
+  const { pairs, removed, added } = matchItems(target.workflows || [], source.workflows || []);
+  const workflows = {
+    created: added.map((workflow): ImportPreviewWorkflow => ({ name: workflow.name, importedFromId: workflow.id })),
+    updated: pairs.map((pair): ImportPreviewWorkflow => {
+      const detail = diffWorkflow(pair.from, pair.to, pair.matchedBy);
+      const changes = [
+        ...detail.changes,
+        ...detail.steps.map((step) => `${step.kind} step ${step.name}`),
+        ...(detail.connections.added.length > 0 ? [`${detail.connections.added.length} connections added`] : []),
+        ...(detail.connections.removed.length > 0 ? [`${detail.connections.removed.length} connections removed`] : []),
+      ];
+      return { id: pair.from.id, name: pair.to.name, importedFromId: pair.to.id, matchedBy: pair.matchedBy, changes };
+    }),
+    removed: removed.map((workflow): ImportPreviewWorkflow => ({ id: workflow.id, name: workflow.name })),
+  };
+
+  const sourceConfig = isRecord(options.configOverride)
+    ? { ...(source.config || {}), ...options.configOverride }
+    : source.config;
+  const configKeys = diffKeys(target.config, sourceConfig);
+
+  const resolutions = new Map<string, string>();
+  (options.authenticationResolution || []).forEach((entry) => {
+    if (isRecord(entry) && typeof entry.authExportId === 'string' && typeof entry.authId === 'string') {
+      resolutions.set(entry.authExportId, entry.authId);
+    }
+  });
+  const targetAuthIds = new Set((target.authentications || []).map((auth) => auth.id));
+  const authenticationImpact: OfflineImportPreview['authenticationImpact'] = { resolved: [], unresolved: [], unused: [] };
+  const usedAuthIds = new Set<string>();
+  (source.authentications || []).forEach((auth) => {
+    const name = auth.name || auth.id;
+    const resolved = resolutions.get(auth.id);
+    if (resolved) {
+      authenticationImpact.resolved.push({ authExportId: auth.id, name, authId: resolved, via: 'resolution' });
+      usedAuthIds.add(resolved);
+    } else if (targetAuthIds.has(auth.id)) {
+      authenticationImpact.resolved.push({ authExportId: auth.id, name, authId: auth.id, via: 'target' });
+      usedAuthIds.add(auth.id);
+    } else {
+      authenticationImpact.unresolved.push({ authExportId: auth.id, name });
+    }
+  });
+  authenticationImpact.unused = (target.authentications || [])
+    .filter((auth) => !usedAuthIds.has(auth.id))
+    .map((auth) => ({ id: auth.id, name: auth.name || auth.id }));
+
+  return {
+    offline: true,
+    importMetadata: {
+      projectName: target.project?.name || options.labels?.target,
+      importedFrom: { projectName: source.project?.name || options.labels?.source },
+    },
+    projectImpact: {
+      workflows,
+      config: { created: configKeys.added, updated: configKeys.changed, removed: configKeys.removed },
+    },
+    authenticationImpact,
+  };
+}
+
+// Markdown report of a preview, from Tray or from previewImportOffline
+export function formatImportPreview(data: any, projectId: string): string {
+  let previewText = `# Import Preview Analysis\n\n`;
+  if (data.offline) {
+    previewText += `_Offline prediction from project exports; Tray's import may differ._\n\n`;
+  }
+  previewText += `**Target Project:** ${data.importMetadata?.projectName || projectId}\n`;
+  previewText += `**Source Project:** ${data.importMetadata?.importedFrom?.projectName || "Unknown"}\n`;
+
+  if (data.importMetadata?.importedFrom?.projectVersion) {
+    previewText += `**Source Version:** ${data.importMetadata.importedFrom.projectVersion}\n`;
+  }
+
+  previewText += `**Preview Date:** ${new Date().toISOString()}\n\n`;
+
+  // Project Impact Analysis
+  if (data.projectImpact) {
+    previewText += `## Project Impact\n\n`;
+
+    // Workflow Changes
+    if (data.projectImpact.workflows) {
+      const workflows = data.projectImpact.workflows;
+      previewText += `### Workflow Changes\n`;
+      previewText += `- **Created:** ${workflows.created?.length || 0}\n`;
+      previewText += `- **Updated:** ${workflows.updated?.length || 0}\n`;
+      previewText += `- **Removed:** ${workflows.removed?.length || 0}\n\n`;
+
+      if (workflows.created && workflows.created.length > 0) {
+        previewText += `#### Workflows to be Created:\n`;
+        workflows.created.forEach((workflow: any) => {
+          previewText += `- **${workflow.name}** (from ${workflow.importedFromId})\n`;
+        });
+        previewText += `\n`;
+      }
+
+      if (workflows.updated && workflows.updated.length > 0) {
+        previewText += `#### Workflows to be Updated:\n`;
+        workflows.updated.forEach((workflow: any) => {
+          previewText += `- **${workflow.name}** (${workflow.id}) ← from ${workflow.importedFromId}`;
+          if (Array.isArray(workflow.changes)) {
+            previewText += workflow.changes.length > 0 ? `: ${workflow.changes.join("; ")}` : ` (no changes)`;
+          }
+          previewText += `\n`;
+        });
+        previewText += `\n`;
+      }
+
+      if (workflows.removed && workflows.removed.length > 0) {
+        previewText += `#### Workflows to be Removed:\n`;
+        workflows.removed.forEach((workflow: any) => {
+          previewText += `- **${workflow.name}** (${workflow.id})\n`;
+        });
+        previewText += `\n`;
+      }
+    }
+
+    // Configuration Changes
+    if (data.projectImpact.config) {
+      const config = data.projectImpact.config;
+      previewText += `### Configuration Changes\n`;
+      // Offline previews list the keys
+      const keys = (entries: unknown) =>
+        Array.isArray(entries) && entries.length > 0 && entries.every((entry) => typeof entry === "string") ? ` (${entries.join(", ")})` : "";
+      previewText += `- **Created:** ${config.created?.length || 0}${keys(config.created)}\n`;
+      previewText += `- **Updated:** ${config.updated?.length || 0}${keys(config.updated)}\n`;
+      previewText += `- **Removed:** ${config.removed?.length || 0}${keys(config.removed)}\n\n`;
+    }
+  }
+
+  // Authentication Changes (offline previews only)
+  if (data.authenticationImpact) {
+    const auths = data.authenticationImpact;
+    previewText += `### Authentication Changes\n`;
+    auths.resolved.forEach((auth: any) => {
+      previewText += `- ✅ **${auth.name}** (${auth.authExportId}) → ${auth.authId}${auth.via === "target" ? " (already in the target)" : ""}\n`;
+    });
+    auths.unresolved.forEach((auth: any) => {
+      previewText += `- ❌ **${auth.name}** (${auth.authExportId}) has no authentication in the target\n`;
+    });
+    auths.unused.forEach((auth: any) => {
+      previewText += `- ➖ **${auth.name}** (${auth.id}) is no longer used\n`;
+    });
+    previewText += `\n`;
+  }
+
+  // Solution Impact (if applicable)
+  if (data.solutionImpact) {
+    previewText += `## Solution Impact\n\n`;
+    previewText += `- **Change Type:** ${data.solutionImpact.changeType}\n`;
+    previewText += `- **Breaking Changes:** ${data.solutionImpact.breakingChanges ? "⚠️ Yes" : "✅ No"}\n`;
+    previewText += `- **Requires New User Input:** ${data.solutionImpact.requiresNewUserInput ? "Yes" : "No"}\n`;
+    previewText += `- **Requires New System Input:** ${data.solutionImpact.requiresNewSystemInput ? "Yes" : "No"}\n\n`;
+
+    if (data.solutionImpact.breakingChanges) {
+      previewText += `⚠️ **Warning:** This import introduces breaking changes to the solution. Existing solution instances may require manual upgrade.\n\n`;
+    }
+  }
+
+  // Migration Recommendations
+  previewText += `## Migration Recommendations\n\n`;
+
+  let hasWarnings = false;
+
+  if (data.solutionImpact?.breakingChanges) {
+    previewText += `- ⚠️ **Breaking Changes Detected:** Review solution instances before import\n`;
+    hasWarnings = true;
+  }
+
+  if (data.projectImpact?.workflows?.removed?.length > 0) {
+    previewText += `- ⚠️ **Workflows Will Be Removed:** ${data.projectImpact.workflows.removed.length} workflows\n`;
+    hasWarnings = true;
+  }
+
+  if (data.authenticationImpact?.unresolved?.length > 0) {
+    previewText += `- ⚠️ **Unresolved Authentications:** ${data.authenticationImpact.unresolved.length} authentications need an authenticationResolution entry\n`;
+    hasWarnings = true;
+  }
+
+  if (data.solutionImpact?.requiresNewUserInput) {
+    previewText += `- ⚠️ **User Input Required:** Solution will require new end-user configuration\n`;
+    hasWarnings = true;
+  }
+
+  if (!hasWarnings) {
+    previewText += `- ✅ **Safe to Import:** No breaking changes or warnings detected\n`;
+  }
+
+  return previewText;
+}
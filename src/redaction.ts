@@ -0,0 +1,166 @@
+// Central secret redaction for tool results, resources, the audit log and stderr logs
+
+export interface RedactionPolicy {
+  enabled: boolean;
+  // Key names that are never redacted, e.g. a connector field that only looks like a secret
+  allowKeys: string[];
+  // Extra key names whose values are always redacted
+  denyKeys: string[];
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  enabled: true,
+  allowKeys: [],
+  denyKeys: [],
+};
+
+export const REDACTED = '[REDACTED]';
+
+let redactionPolicy: RedactionPolicy = { ...DEFAULT_REDACTION_POLICY };
+
+export function configureRedaction(overrides: Partial<RedactionPolicy>): RedactionPolicy {
+  redactionPolicy = {
+    enabled: typeof overrides.enabled === 'boolean' ? overrides.enabled : DEFAULT_REDACTION_POLICY.enabled,
+    allowKeys: Array.isArray(overrides.allowKeys) ? overrides.allowKeys : [],
+    denyKeys: Array.isArray(overrides.denyKeys) ? overrides.denyKeys : [],
+  };
+  return redactionPolicy;
+}
+
+export function getRedactionPolicy(): RedactionPolicy {
+  return redactionPolicy;
+}
+
+// Enough of a token to tell tokens apart, e.g. "abcd…wxyz"
+export function maskToken(token: string): string {
+  return token.length > 12 ? `${token.slice(0, 4)}…${token.slice(-4)}` : '****';
+}
+
+// Key names are compared lowercased without separators, so api_key, apiKey and API-KEY are the same
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const SECRET_KEYS = new Set([
+  'token', 'accesstoken', 'refreshtoken', 'idtoken', 'authtoken', 'bearertoken', 'sessiontoken', 'apitoken',
+  'mastertoken', 'usertoken', 'authorization', 'credentials', 'cookie', 'setcookie',
+  'password', 'passwd', 'pwd', 'passphrase', 'secret', 'clientsecret', 'secretkey', 'secretaccesskey',
+  'apikey', 'xapikey', 'apisecret', 'privatekey',
+]);
+
+const SECRET_KEY_SUFFIX = /(password|passwd|passphrase|secret|apikey|privatekey|accesstoken|refreshtoken|authtoken)$/;
+
+// Whether values under this key are secrets. confirmationToken and cursors are not.
+export function isSecretKey(key: string): boolean {
+  const normalized = normalizeKey(key);
+  if (redactionPolicy.allowKeys.some((allowed) => normalizeKey(allowed) === normalized)) {
+    return false;
+  }
+  return SECRET_KEYS.has(normalized) ||
+    SECRET_KEY_SUFFIX.test(normalized) ||
+    redactionPolicy.denyKeys.some((denied) => normalizeKey(denied) === normalized);
+}
+
+// Secrets recognizable by their value alone
+const SECRET_PATTERNS: Array<{ pattern: RegExp; replacement: string }> = [
+  { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, replacement: REDACTED },
+  { pattern: /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]{8,}=*/gi, replacement: `$1 ${REDACTED}` },
+  // JSON Web Tokens
+  { pattern: /\beyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g, replacement: REDACTED },
+  // Common API key formats: OpenAI/Anthropic, Slack, GitHub, AWS, Google, Stripe
+  { pattern: /\bsk-[A-Za-z0-9_-]{20,}/g, replacement: REDACTED },
+  { pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, replacement: REDACTED },
+  { pattern: /\bgh[pousr]_[A-Za-z0-9]{30,}/g, replacement: REDACTED },
+  { pattern: /\bAKIA[0-9A-Z]{16}\b/g, replacement: REDACTED },
+  { pattern: /\bAIza[0-9A-Za-z_-]{35}/g, replacement: REDACTED },
+  { pattern: /\b[rs]k_(live|test)_[0-9A-Za-z]{16,}/g, replacement: REDACTED },
+];
+
+// "key": "value", key=value and key: value pairs in free text, such as JSON dumps and URLs
+const KEY_VALUE_PAIR = /(["']?)([A-Za-z][A-Za-z0-9_-]*)\1(\s*[:=]\s*)("(?:[^"\\]|\\.)*"|'[^']*'|[^\s,;&"'{}[\]*]+)/g;
+
+// Query parameters, which may sit inside a quoted URL the pair pattern skips over
+const QUERY_PARAMETER = /([?&])([^=&\s"'#]+)=([^&\s"'#]+)/g;
+
+// Redact secrets in free text
+export function redactText(text: string): string {
+  if (!redactionPolicy.enabled || !text) {
+    return text;
+  }
+
+  let redacted = SECRET_PATTERNS.reduce((current, { pattern, replacement }) => current.replace(pattern, replacement), text);
+  redacted = redacted.replace(QUERY_PARAMETER, (match, prefix, key) => (isSecretKey(key) ? `${prefix}${key}=${REDACTED}` : match));
+  redacted = redacted.replace(KEY_VALUE_PAIR, (match, quote, key, separator, value: string) => {
+    // "Authorization: Bearer xyz" is already handled by the bearer pattern
+    if (!isSecretKey(key) || /^(null|true|false|""|bearer|basic)$/i.test(value) || value.includes(REDACTED)) {
+      return match;
+    }
+    const quoted = value.startsWith('"') || value.startsWith("'") ? `${value[0]}${REDACTED}${value[0]}` : REDACTED;
+    return `${quote}${key}${quote}${separator}${quoted}`;
+  });
+  return redacted;
+}
+
+// Redact secrets in a JSON value: strings and numbers under secret keys, and secret-looking strings anywhere.
+// Objects under secret keys are walked rather than replaced, so a schema property named "password" survives.
+export function redactValue<T>(value: T): T {
+  if (!redactionPolicy.enabled) {
+    return value;
+  }
+  return redactNode(value) as T;
+}
+
+function redactNode(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactNode);
+  }
+  if (value && typeof value === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const isScalar = (typeof child === 'string' && child !== '') || typeof child === 'number';
+      redacted[key] = isScalar && isSecretKey(key) ? REDACTED : redactNode(child);
+    }
+    return redacted;
+  }
+  return value;
+}
+
+// The parts of an MCP tool result that can carry secrets
+interface ToolResultContent {
+  content?: unknown;
+  structuredContent?: unknown;
+}
+
+function isToolResult(value: unknown): value is ToolResultContent {
+  return typeof value === 'object' && value !== null && ('content' in value || 'structuredContent' in value);
+}
+
+function redactContentItem(item: unknown): unknown {
+  if (typeof item === 'object' && item !== null && 'type' in item && item.type === 'text' && 'text' in item && typeof item.text === 'string') {
+    return { ...item, text: redactText(item.text) };
+  }
+  return item;
+}
+
+// Redact the text and structured content of an MCP tool result
+export function redactToolResult<R>(result: R): R {
+  if (!redactionPolicy.enabled || !isToolResult(result)) {
+    return result;
+  }
+
+  return {
+    ...result,
+    ...(Array.isArray(result.content) && { content: result.content.map(redactContentItem) }),
+    ...(result.structuredContent !== undefined && { structuredContent: redactValue(result.structuredContent) }),
+  };
+}
+
+// Wrap a tool callback so nothing it returns reaches the client unredacted
+export function withRedaction<A extends unknown[], R>(
+  callback: (...args: A) => R | Promise<R>
+): (...args: A) => Promise<R> {
+  return async (...args: A) => redactToolResult(await callback(...args));
+}
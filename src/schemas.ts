@@ -0,0 +1,340 @@
+import { z } from "zod";
+
+// Zod output schemas for structured tool results. They mirror the Tray API interfaces in
+// index.ts and pass unknown fields through, since Tray may add fields at any time.
+
+export const paginationSchema = z.object({
+  cursor: z.string().optional(),
+  hasMore: z.boolean().optional(),
+  totalCount: z.number().optional(),
+  pagesFetched: z.number(),
+  truncated: z.boolean(),
+});
+
+export const cacheInfoSchema = z.object({
+  source: z.enum(["cache", "revalidated", "network", "stale"]),
+  fetchedAt: z.string(),
+});
+
+export const inputValidationSchema = z.object({
+  valid: z.boolean(),
+  checked: z.boolean(),
+  issues: z.array(z.object({
+    path: z.string(),
+    kind: z.enum(["missing", "type", "unknown", "enum", "invalid"]),
+    severity: z.enum(["error", "warning"]),
+    message: z.string(),
+  })),
+});
+
+export const batchItemResultSchema = z.object({
+  index: z.number(),
+  status: z.enum(["success", "error", "skipped"]),
+  result: z.any().optional(),
+  error: z.string().optional(),
+  durationMs: z.number(),
+});
+
+export const auditEntrySchema = z.object({
+  timestamp: z.string(),
+  tool: z.string(),
+  arguments: z.record(z.unknown()),
+  region: z.string().optional(),
+  outcome: z.enum(["success", "error"]),
+  error: z.string().optional(),
+  durationMs: z.number(),
+  requests: z.array(z.object({
+    method: z.string(),
+    path: z.string(),
+    region: z.string(),
+    status: z.number().optional(),
+    latencyMs: z.number(),
+    attempts: z.number(),
+  })),
+  client: z.string().optional(),
+});
+
+export const tokenDiagnosisSchema = z.object({
+  sources: z.array(z.string()),
+  kind: z.enum(["master", "user", "unknown"]),
+  tokenPreview: z.string(),
+  configuredRegion: z.string().optional(),
+  health: z.enum(["ok", "wrong-region", "rejected", "unreachable", "error"]),
+  workingRegions: z.array(z.string()),
+  probes: z.array(z.object({
+    region: z.string(),
+    ok: z.boolean(),
+    status: z.number().optional(),
+    latencyMs: z.number(),
+    workspaceCount: z.number().optional(),
+    error: z.string().optional(),
+  })),
+  workspaces: z.array(z.object({ id: z.string(), name: z.string(), type: z.string().nullish(), region: z.string() })),
+  advice: z.string().optional(),
+});
+
+const trayServiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  version: z.number(),
+}).passthrough();
+
+export const trayConnectorSchema = z.object({
+  title: z.string(),
+  description: z.string().nullish(),
+  name: z.string(),
+  version: z.string(),
+  service: trayServiceSchema,
+}).passthrough();
+
+export const trayConnectorOperationSchema = z.object({
+  name: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  inputSchema: z.any(),
+  outputSchema: z.any(),
+  hasDynamicOutput: z.boolean(),
+  authScopes: z.array(z.string()).optional(),
+}).passthrough();
+
+export const trayTriggerSchema = z.object({
+  name: z.string(),
+  title: z.string(),
+  description: z.string().nullish(),
+  version: z.string(),
+  service: trayServiceSchema,
+}).passthrough();
+
+export const trayAuthenticationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  serviceEnvironmentId: z.string(),
+  scopes: z.array(z.string()).nullish(),
+  service: z.object({
+    name: z.string().optional(),
+    version: z.union([z.string(), z.number()]).optional(),
+  }).passthrough().nullish(),
+}).passthrough();
+
+export const trayWorkspaceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string().nullish(),
+  description: z.string().nullish(),
+  monthlyTaskLimit: z.number().nullish(),
+}).passthrough();
+
+export const trayProjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  workspaceId: z.string().nullish(),
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish(),
+}).passthrough();
+
+export const trayProjectVersionSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  versionNumber: z.string(),
+  name: z.string().nullish(),
+  description: z.string().nullish(),
+  createdAt: z.string().nullish(),
+  status: z.string().nullish(),
+}).passthrough();
+
+const trayStepReferenceSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  operation: z.string(),
+  title: z.string().optional(),
+}).passthrough();
+
+const trayWorkflowStepSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  connector: trayStepReferenceSchema.optional(),
+  trigger: trayStepReferenceSchema.optional(),
+  authentication: z.object({ id: z.string(), name: z.string() }).passthrough().optional(),
+  input: z.any().optional(),
+  position: z.object({ x: z.number(), y: z.number() }).optional(),
+}).passthrough();
+
+const trayWorkflowDetailSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  enabled: z.boolean().nullish(),
+  tags: z.array(z.string()).optional(),
+  steps: z.array(trayWorkflowStepSchema).optional(),
+  connections: z.array(z.any()).optional(),
+  config: z.any().optional(),
+  triggers: z.array(trayWorkflowStepSchema).optional(),
+  nestedWorkflows: z.array(z.object({
+    workflowId: z.string(),
+    workflowName: z.string(),
+    stepId: z.string(),
+  }).passthrough()).optional(),
+}).passthrough();
+
+export const trayProjectExportSchema = z.object({
+  project: trayProjectSchema.partial().passthrough().optional(),
+  workflows: z.array(trayWorkflowDetailSchema).optional(),
+  config: z.any().optional(),
+  authentications: z.array(trayAuthenticationSchema.partial().passthrough()).optional(),
+  services: z.array(z.any()).optional(),
+  connectors: z.array(z.any()).optional(),
+  dependencies: z.object({
+    workflows: z.array(z.string()).optional(),
+    connectors: z.array(z.string()).optional(),
+    services: z.array(z.string()).optional(),
+    authentications: z.array(z.string()).optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+export const snapshotSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  projectName: z.string().optional(),
+  versionNumber: z.string(),
+  region: z.string(),
+  savedAt: z.string(),
+  file: z.string(),
+  sizeBytes: z.number(),
+  sha256: z.string(),
+  workflows: z.number(),
+  path: z.string().optional(),
+  uri: z.string().optional(),
+  client: z.string().optional(),
+});
+
+const stepChangeSchema = z.object({
+  kind: z.enum(["added", "removed", "changed"]),
+  id: z.string(),
+  name: z.string(),
+  matchedBy: z.enum(["id", "name"]).optional(),
+  changes: z.array(z.string()),
+});
+
+export const projectDiffSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  summary: z.object({
+    workflowsAdded: z.number(),
+    workflowsRemoved: z.number(),
+    workflowsChanged: z.number(),
+    stepsAdded: z.number(),
+    stepsRemoved: z.number(),
+    stepsChanged: z.number(),
+    connectorVersionChanges: z.number(),
+    authenticationChanges: z.number(),
+    configKeyChanges: z.number(),
+  }),
+  workflows: z.array(z.object({
+    kind: z.enum(["added", "removed", "changed"]),
+    id: z.string(),
+    name: z.string(),
+    matchedBy: z.enum(["id", "name"]).optional(),
+    changes: z.array(z.string()),
+    steps: z.array(stepChangeSchema),
+    connections: z.object({
+      added: z.array(z.string()),
+      removed: z.array(z.string()),
+    }),
+  })),
+  connectorVersions: z.array(z.object({
+    connector: z.string(),
+    from: z.array(z.string()),
+    to: z.array(z.string()),
+  })),
+  authentications: z.object({
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    renamed: z.array(z.string()),
+  }),
+  config: z.object({
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    changed: z.array(z.string()),
+  }),
+});
+
+const importPreviewWorkflowSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  importedFromId: z.string().optional(),
+  matchedBy: z.enum(["id", "name"]).optional(),
+  changes: z.array(z.string()).optional(),
+});
+
+export const offlineImportPreviewSchema = z.object({
+  offline: z.literal(true),
+  importMetadata: z.object({
+    projectName: z.string().optional(),
+    importedFrom: z.object({
+      projectName: z.string().optional(),
+      projectVersion: z.string().optional(),
+    }),
+  }),
+  projectImpact: z.object({
+    workflows: z.object({
+      created: z.array(importPreviewWorkflowSchema),
+      updated: z.array(importPreviewWorkflowSchema),
+      removed: z.array(importPreviewWorkflowSchema),
+    }),
+    config: z.object({
+      created: z.array(z.string()),
+      updated: z.array(z.string()),
+      removed: z.array(z.string()),
+    }),
+  }),
+  authenticationImpact: z.object({
+    resolved: z.array(z.object({ authExportId: z.string(), name: z.string(), authId: z.string(), via: z.enum(["resolution", "target"]) })),
+    unresolved: z.array(z.object({ authExportId: z.string(), name: z.string() })),
+    unused: z.array(z.object({ id: z.string(), name: z.string() })),
+  }),
+});
+
+const serviceRefSchema = z.object({ name: z.string(), version: z.string() });
+
+export const importMappingPlanSchema = z.object({
+  authenticationResolution: z.array(z.object({ authExportId: z.string(), authId: z.string() })),
+  connectorMapping: z.array(z.any()),
+  serviceMapping: z.array(z.object({ source: serviceRefSchema, target: serviceRefSchema })),
+  matches: z.array(z.object({
+    authExportId: z.string(),
+    title: z.string(),
+    service: serviceRefSchema.optional(),
+    scopes: z.array(z.string()),
+    status: z.enum(["matched", "ambiguous", "unresolved"]),
+    authId: z.string().optional(),
+    authName: z.string().optional(),
+    confidence: z.number(),
+    reasons: z.array(z.string()),
+    candidates: z.array(z.object({
+      authId: z.string(),
+      name: z.string(),
+      confidence: z.number(),
+      reasons: z.array(z.string()),
+      serviceMapping: z.object({ source: serviceRefSchema, target: serviceRefSchema }).optional(),
+    })),
+  })),
+  unresolved: z.number(),
+});
+
+export const workflowDependencySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  enabled: z.boolean().optional(),
+  stepCount: z.number(),
+  connectors: z.array(z.string()),
+  triggers: z.array(z.string()),
+  authentications: z.array(z.object({ id: z.string(), name: z.string().optional() })),
+  nestedWorkflows: z.array(z.string()),
+});
+
+export const usageSchema = z.object({
+  key: z.string(),
+  name: z.string().optional(),
+  workflows: z.array(z.string()),
+});
@@ -0,0 +1,109 @@
+// Small BM25 full-text index used by search-connectors
+
+// Words that carry no meaning in connector and operation descriptions
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from', 'how', 'i', 'in', 'into',
+  'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'which', 'with', 'you', 'your',
+]);
+
+// Standard BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Light stemming so "issues"/"issue" and "created"/"creating"/"create" match
+function stem(word: string): string {
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith('ies')) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.length > 5 && stemmed.endsWith('ing')) {
+    stemmed = stemmed.slice(0, -3);
+  } else if (stemmed.length > 4 && stemmed.endsWith('ed')) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.length > 3 && stemmed.endsWith('s') && !stemmed.endsWith('ss')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  return stemmed.length > 4 && stemmed.endsWith('e') ? stemmed.slice(0, -1) : stemmed;
+}
+
+// Split camelCase, snake_case and punctuation, lowercase, drop stop words and stem
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+// A searchable field; weight repeats its terms so titles outrank descriptions
+export interface SearchField {
+  text: string | undefined | null;
+  weight: number;
+}
+
+export interface SearchHit<T> {
+  item: T;
+  score: number;
+}
+
+interface IndexedDocument<T> {
+  item: T;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export class Bm25Index<T> {
+  private readonly documents: IndexedDocument<T>[] = [];
+  private readonly documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  add(item: T, fields: SearchField[]): void {
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+
+    for (const field of fields) {
+      for (const term of tokenize(field.text || '')) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + field.weight);
+        length += field.weight;
+      }
+    }
+
+    for (const term of termFrequencies.keys()) {
+      this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+    }
+    this.documents.push({ item, termFrequencies, length });
+    this.totalLength += length;
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  search(query: string, limit: number): SearchHit<T>[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.length === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.documents.length || 1;
+    const hits: SearchHit<T>[] = [];
+
+    for (const document of this.documents) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (this.documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * (document.length / averageLength)));
+      }
+      if (score > 0) {
+        hits.push({ item: document.item, score });
+      }
+    }
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -1,10 +1,23 @@
 #!/usr/bin/env node
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { homedir } from 'os';
 import { createInterface } from 'readline';
 import { existsSync } from 'fs';
+import { resolve } from 'path';
+import {
+  DEFAULT_PROFILE_NAME,
+  TrayConfig,
+  TrayProfile,
+  getArgValue,
+  getDefaultProfileName,
+  getVaultPath,
+  hasTokens,
+  isVaultEnabled,
+  listProfiles,
+  readConfigFile,
+  writeConfigFile,
+} from './config.js';
+import { redactText } from './redaction.js';
+import { VaultKeySource, VaultLockedError, createVaultKeyFile, readVaultKeySource, unlockVault } from './vault.js';
 
 // ANSI color codes for better UX
 const colors = {
@@ -22,13 +35,6 @@ const colors = {
 
 let rl: any = null;
 
-interface TrayTokenConfig {
-  masterToken?: string;
-  userToken?: string;
-  region?: 'us' | 'eu' | 'apac';
-  workspaceId?: string;
-}
-
 function colorize(text: string, color: keyof typeof colors): string {
   return `${colors[color]}${text}${colors.reset}`;
 }
@@ -39,6 +45,19 @@ function question(query: string): Promise<string> {
   });
 }
 
+// Like question, but the answer is not echoed
+function questionHidden(query: string): Promise<string> {
+  return new Promise((resolve) => {
+    const write = rl._writeToOutput;
+    rl.question(query, (answer: string) => {
+      rl._writeToOutput = write;
+      rl.output.write('\n');
+      resolve(answer);
+    });
+    rl._writeToOutput = () => {};
+  });
+}
+
 function printHeader() {
   console.log('\n' + colorize('🔧 Tray MCP Server Setup', 'cyan'));
   console.log(colorize('━'.repeat(50), 'dim'));
@@ -62,37 +81,30 @@ function printTokenInfo() {
   console.log('');
 }
 
-async function getConfigPath(): Promise<string> {
-  const homeDir = homedir();
-  const configDir = join(homeDir, '.config', 'tray-mcp-server');
-  
-  if (!existsSync(configDir)) {
-    await mkdir(configDir, { recursive: true });
-  }
-  
-  return join(configDir, 'config.json');
-}
-
-async function loadExistingConfig(): Promise<TrayTokenConfig> {
-  try {
-    const configPath = await getConfigPath();
-    if (existsSync(configPath)) {
-      const content = await readFile(configPath, 'utf-8');
-      return JSON.parse(content);
+async function loadExistingConfig(): Promise<TrayConfig> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await readConfigFile();
+    } catch (error) {
+      // Ask for the passphrase when TRAY_VAULT_PASSPHRASE is not set or is wrong
+      const source = isVaultEnabled() ? await readVaultKeySource(getVaultPath()) : undefined;
+      if (!(error instanceof VaultLockedError) || source?.keySource !== 'passphrase' || !rl || attempt > 3) {
+        throw error;
+      }
+      if (attempt > 1) {
+        console.log(colorize(`❌ ${error.message}`, 'red'));
+      }
+      unlockVault(await questionHidden(colorize('🔐 Vault passphrase: ', 'white')));
     }
-  } catch (error) {
-    // Config doesn't exist or is invalid, return empty config
   }
-  return {};
 }
 
-async function saveConfig(config: TrayTokenConfig): Promise<void> {
-  const configPath = await getConfigPath();
-  await writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8');
+async function saveConfig(config: TrayConfig, vault?: VaultKeySource | false): Promise<void> {
+  const configPath = await writeConfigFile(config, { vault });
   console.log(colorize(`✅ Configuration saved to: ${configPath}`, 'green'));
 }
 
-async function validateToken(token: string, region: string = 'us'): Promise<boolean> {
+export async function validateToken(token: string, region: string = 'us'): Promise<boolean> {
   try {
     const baseUrls = {
       us: 'https://api.tray.io',
@@ -104,7 +116,8 @@ async function validateToken(token: string, region: string = 'us'): Promise<bool
       headers: {
         'Authorization': `Bearer ${token}`,
         'User-Agent': 'tray-mcp-server-setup/1.0.0'
-      }
+      },
+      signal: AbortSignal.timeout(15000)
     });
     
     return response.ok;
@@ -113,72 +126,66 @@ async function validateToken(token: string, region: string = 'us'): Promise<bool
   }
 }
 
-async function promptForTokens(): Promise<TrayTokenConfig> {
-  const config: TrayTokenConfig = {};
+async function promptForToken(label: string, current: string | undefined, region: string): Promise<string | undefined> {
+  const skipHint = current ? 'press Enter to keep the current token' : 'or press Enter to skip';
+  const token = await question(colorize(`Enter your ${label.toLowerCase()} (${skipHint}): `, 'white'));
+
+  if (!token.trim()) {
+    console.log(colorize(current ? `✓ Keeping current ${label.toLowerCase()}` : `⏭️  Skipping ${label.toLowerCase()}`, 'dim'));
+    return current;
+  }
+
+  console.log(colorize(`Validating ${label.toLowerCase()}...`, 'yellow'));
+  const isValid = await validateToken(token.trim(), region);
+
+  if (isValid) {
+    console.log(colorize(`✅ ${label} validated successfully!`, 'green'));
+    return token.trim();
+  }
+
+  console.log(colorize(`❌ ${label} validation failed. Please check your token and region.`, 'red'));
+  const proceed = await question(colorize('Save anyway? (y/N): ', 'yellow'));
+  return proceed.toLowerCase() === 'y' ? token.trim() : current;
+}
+
+async function promptForTokens(existing: TrayProfile = {}): Promise<TrayProfile> {
+  const config: TrayProfile = {};
   
   // Region selection
+  const regionMap = { '1': 'us', '2': 'eu', '3': 'apac' };
+  const currentChoice = Object.keys(regionMap).find(
+    (key) => regionMap[key as keyof typeof regionMap] === (existing.region || 'us')
+  ) || '1';
+
   console.log(colorize('1. Select your Tray region:', 'cyan'));
-  console.log('1) US (default)');
+  console.log('1) US');
   console.log('2) EU');
   console.log('3) APAC');
   
-  const regionChoice = await question(colorize('Choose region (1-3, default: 1): ', 'white'));
-  const regionMap = { '1': 'us', '2': 'eu', '3': 'apac' };
-  config.region = (regionMap[regionChoice as keyof typeof regionMap] || 'us') as 'us' | 'eu' | 'apac';
+  const regionChoice = await question(colorize(`Choose region (1-3, default: ${currentChoice}): `, 'white'));
+  config.region = (regionMap[(regionChoice.trim() || currentChoice) as keyof typeof regionMap] || 'us') as 'us' | 'eu' | 'apac';
   
   console.log(colorize(`✓ Selected region: ${config.region.toUpperCase()}`, 'green'));
   
   // Master token
   console.log(colorize('\n2. Configure Master Token (Organization-level access):', 'cyan'));
-  const masterToken = await question(colorize('Enter your master token (or press Enter to skip): ', 'white'));
-  
-  if (masterToken.trim()) {
-    console.log(colorize('Validating master token...', 'yellow'));
-    const isValid = await validateToken(masterToken.trim(), config.region);
-    
-    if (isValid) {
-      config.masterToken = masterToken.trim();
-      console.log(colorize('✅ Master token validated successfully!', 'green'));
-    } else {
-      console.log(colorize('❌ Master token validation failed. Please check your token and region.', 'red'));
-      const proceed = await question(colorize('Save anyway? (y/N): ', 'yellow'));
-      if (proceed.toLowerCase() === 'y') {
-        config.masterToken = masterToken.trim();
-      }
-    }
-  } else {
-    console.log(colorize('⏭️  Skipping master token', 'dim'));
-  }
+  config.masterToken = await promptForToken('Master token', existing.masterToken, config.region);
   
   // User token
   console.log(colorize('\n3. Configure User Token (User-specific access):', 'cyan'));
-  const userToken = await question(colorize('Enter your user token (or press Enter to skip): ', 'white'));
-  
-  if (userToken.trim()) {
-    console.log(colorize('Validating user token...', 'yellow'));
-    const isValid = await validateToken(userToken.trim(), config.region);
-    
-    if (isValid) {
-      config.userToken = userToken.trim();
-      console.log(colorize('✅ User token validated successfully!', 'green'));
-    } else {
-      console.log(colorize('❌ User token validation failed. Please check your token and region.', 'red'));
-      const proceed = await question(colorize('Save anyway? (y/N): ', 'yellow'));
-      if (proceed.toLowerCase() === 'y') {
-        config.userToken = userToken.trim();
-      }
-    }
-  } else {
-    console.log(colorize('⏭️  Skipping user token', 'dim'));
-  }
+  config.userToken = await promptForToken('User token', existing.userToken, config.region);
   
   // Workspace ID (optional)
   console.log(colorize('\n4. Default Workspace ID (optional):', 'cyan'));
-  const workspaceId = await question(colorize('Enter default workspace ID (or press Enter to skip): ', 'white'));
+  const workspaceHint = existing.workspaceId ? `press Enter to keep ${existing.workspaceId}` : 'or press Enter to skip';
+  const workspaceId = await question(colorize(`Enter default workspace ID (${workspaceHint}): `, 'white'));
   
   if (workspaceId.trim()) {
     config.workspaceId = workspaceId.trim();
     console.log(colorize('✓ Default workspace ID set', 'green'));
+  } else if (existing.workspaceId) {
+    config.workspaceId = existing.workspaceId;
+    console.log(colorize('✓ Keeping current workspace ID', 'dim'));
   } else {
     console.log(colorize('⏭️  No default workspace ID', 'dim'));
   }
@@ -186,7 +193,7 @@ async function promptForTokens(): Promise<TrayTokenConfig> {
   return config;
 }
 
-function printUsageInstructions(config: TrayTokenConfig) {
+function printUsageInstructions(config: TrayProfile, profileName: string = DEFAULT_PROFILE_NAME) {
   console.log('\n' + colorize('🚀 Setup Complete!', 'green'));
   console.log(colorize('━'.repeat(50), 'dim'));
   
@@ -202,13 +209,21 @@ function printUsageInstructions(config: TrayTokenConfig) {
         "servers": {
           "tray-mcp-server": {
             "command": "npx",
-            "args": ["tray-mcp-server"]
+            "args": profileName === DEFAULT_PROFILE_NAME
+              ? ["tray-mcp-server"]
+              : ["tray-mcp-server", "--profile", profileName]
           }
         }
       }
     }, null, 2), 'cyan'));
     console.log('');
     
+    if (isVaultEnabled()) {
+      console.log(colorize('🔐 Your tokens are encrypted.', 'yellow'));
+      console.log('The server needs ' + colorize('TRAY_VAULT_PASSPHRASE', 'cyan') + ' (or its key file) to read them; add it to the "env" block above.');
+      console.log('');
+    }
+
     console.log(colorize('🔧 Environment Variables (alternative):', 'yellow'));
     if (config.masterToken) {
       console.log(`export TRAY_MASTER_TOKEN="${config.masterToken}"`);
@@ -241,21 +256,235 @@ function printUsageInstructions(config: TrayTokenConfig) {
   console.log(colorize('🆘 Support:', 'blue') + ' https://github.com/guilherme-x/tray-mcp-server/issues');
 }
 
-async function checkExistingConfig(): Promise<boolean> {
-  const existing = await loadExistingConfig();
-  
-  if (existing.masterToken || existing.userToken) {
-    console.log(colorize('🔍 Existing configuration found:', 'yellow'));
-    console.log(`• Region: ${existing.region || 'us'}`);
-    console.log(`• Master Token: ${existing.masterToken ? '✓ Configured' : '✗ Not set'}`);
-    console.log(`• User Token: ${existing.userToken ? '✓ Configured' : '✗ Not set'}`);
-    console.log(`• Workspace ID: ${existing.workspaceId || 'Not set'}`);
-    
-    const overwrite = await question(colorize('\nWould you like to reconfigure? (y/N): ', 'white'));
-    return overwrite.toLowerCase() === 'y';
+function printProfiles(config: TrayConfig) {
+  const profiles = listProfiles(config);
+  const defaultName = getDefaultProfileName(config);
+  const names = Object.keys(profiles);
+
+  if (names.length === 0) {
+    console.log(colorize('No profiles configured yet.', 'dim'));
+    return;
+  }
+
+  console.log(colorize('🔍 Configured profiles:', 'yellow'));
+  names.forEach((name, index) => {
+    const profile = profiles[name];
+    console.log(`${index + 1}) ${colorize(name, 'bright')}${name === defaultName ? colorize(' (default)', 'green') : ''}`);
+    console.log(`   • Region: ${profile.region || 'us'}`);
+    console.log(`   • Master Token: ${profile.masterToken ? '✓ Configured' : '✗ Not set'}`);
+    console.log(`   • User Token: ${profile.userToken ? '✓ Configured' : '✗ Not set'}`);
+    console.log(`   • Workspace ID: ${profile.workspaceId || 'Not set'}`);
+  });
+}
+
+async function promptForNewProfileName(config: TrayConfig): Promise<string | null> {
+  const suggestion = Object.keys(listProfiles(config)).length === 0 ? DEFAULT_PROFILE_NAME : '';
+  const hint = suggestion ? ` (default: ${suggestion})` : '';
+  const name = (await question(colorize(`Profile name, e.g. us-prod, eu-prod, sandbox${hint}: `, 'white'))).trim() || suggestion;
+
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) {
+    console.log(colorize('❌ Profile names may only contain letters, numbers, ".", "_" and "-".', 'red'));
+    return null;
+  }
+  if (listProfiles(config)[name]) {
+    console.log(colorize(`❌ Profile "${name}" already exists. Choose "Edit a profile" to change it.`, 'red'));
+    return null;
+  }
+  return name;
+}
+
+async function promptForExistingProfile(config: TrayConfig, action: string): Promise<string | null> {
+  const names = Object.keys(listProfiles(config));
+  if (names.length === 0) {
+    console.log(colorize('No profiles configured yet.', 'dim'));
+    return null;
+  }
+
+  printProfiles(config);
+  const choice = (await question(colorize(`Which profile would you like to ${action}? (number or name): `, 'white'))).trim();
+  const name = names[parseInt(choice, 10) - 1] || (names.includes(choice) ? choice : null);
+
+  if (!name) {
+    console.log(colorize(`❌ No profile matches "${choice}".`, 'red'));
+  }
+  return name;
+}
+
+async function configureProfile(config: TrayConfig, name: string): Promise<void> {
+  const profiles = listProfiles(config);
+  const existing = profiles[name];
+
+  console.log(colorize(`\n${existing ? '✏️  Editing' : '➕ Adding'} profile "${name}"`, 'cyan'));
+  const profile = await promptForTokens(existing);
+
+  if (!hasTokens(profile)) {
+    console.log(colorize(`\n⚠️  No tokens were provided. Profile "${name}" was not saved.`, 'yellow'));
+    return;
+  }
+
+  await saveConfig({
+    ...config,
+    defaultProfile: config.defaultProfile || (Object.keys(profiles).length === 0 ? name : undefined),
+    profiles: { ...profiles, [name]: profile },
+  });
+  printUsageInstructions(profile, name);
+}
+
+async function removeProfile(config: TrayConfig, name: string): Promise<void> {
+  const confirm = await question(colorize(`Remove profile "${name}"? This cannot be undone. (y/N): `, 'yellow'));
+  if (confirm.toLowerCase() !== 'y') {
+    console.log(colorize('⏭️  Profile kept', 'dim'));
+    return;
+  }
+
+  const profiles = listProfiles(config);
+  delete profiles[name];
+
+  const remaining = Object.keys(profiles);
+  const defaultProfile = getDefaultProfileName(config) === name ? remaining[0] : config.defaultProfile;
+
+  await saveConfig({ ...config, defaultProfile, profiles });
+  console.log(colorize(`✓ Removed profile "${name}"`, 'green'));
+  if (defaultProfile && defaultProfile !== config.defaultProfile) {
+    console.log(colorize(`✓ Default profile is now "${defaultProfile}"`, 'green'));
+  }
+}
+
+async function setDefaultProfile(config: TrayConfig, name: string): Promise<void> {
+  await saveConfig({ ...config, defaultProfile: name, profiles: listProfiles(config) });
+  console.log(colorize(`✓ Default profile set to "${name}"`, 'green'));
+}
+
+async function promptForNewPassphrase(): Promise<string | null> {
+  const passphrase = await questionHidden(colorize('New vault passphrase (at least 8 characters): ', 'white'));
+  if (passphrase.length < 8) {
+    console.log(colorize('❌ The passphrase must be at least 8 characters.', 'red'));
+    return null;
+  }
+  const repeated = await questionHidden(colorize('Repeat the passphrase: ', 'white'));
+  if (repeated !== passphrase) {
+    console.log(colorize('❌ The passphrases do not match.', 'red'));
+    return null;
+  }
+  return passphrase;
+}
+
+// Move the tokens into the encrypted vault, or re-encrypt it with a new passphrase or key file
+async function encryptTokens(config: TrayConfig, keyFile?: string): Promise<void> {
+  let source: VaultKeySource;
+  if (keyFile) {
+    const keyFilePath = resolve(keyFile);
+    if (!existsSync(keyFilePath)) {
+      await createVaultKeyFile(keyFilePath);
+      console.log(colorize(`✓ Created key file ${keyFilePath}. Back it up: the tokens cannot be read without it.`, 'green'));
+    }
+    source = { keySource: 'keyFile', keyFile: keyFilePath };
+  } else {
+    const passphrase = process.env.TRAY_VAULT_PASSPHRASE || await promptForNewPassphrase();
+    if (!passphrase) {
+      console.log(colorize('⏭️  Tokens were not encrypted', 'dim'));
+      return;
+    }
+    unlockVault(passphrase);
+    source = { keySource: 'passphrase' };
+  }
+
+  await saveConfig({ ...config, profiles: listProfiles(config) }, source);
+  console.log(colorize(`✓ Tokens are encrypted in ${getVaultPath()}`, 'green'));
+  console.log(source.keySource === 'keyFile'
+    ? `The server reads the key file from ${source.keyFile} (override with ${colorize('TRAY_VAULT_KEY_FILE', 'cyan')}).`
+    : `Set ${colorize('TRAY_VAULT_PASSPHRASE', 'cyan')} in the server's environment so it can read them.`);
+}
+
+async function decryptTokens(config: TrayConfig): Promise<void> {
+  if (!isVaultEnabled()) {
+    console.log(colorize('Tokens are not encrypted.', 'dim'));
+    return;
+  }
+  const confirm = await question(colorize('Store the tokens in plaintext config.json again? (y/N): ', 'yellow'));
+  if (confirm.toLowerCase() !== 'y') {
+    console.log(colorize('⏭️  Tokens stay encrypted', 'dim'));
+    return;
+  }
+  await saveConfig({ ...config, profiles: listProfiles(config) }, false);
+  console.log(colorize('✓ Tokens are stored in plaintext and the vault was removed', 'green'));
+}
+
+// Replace a profile's tokens, keeping its region and workspace
+async function rotateTokens(config: TrayConfig, name: string): Promise<void> {
+  const profiles = listProfiles(config);
+  const profile = profiles[name];
+  if (!profile) {
+    console.log(colorize(`❌ Profile "${name}" does not exist.`, 'red'));
+    return;
+  }
+
+  console.log(colorize(`\n🔄 Rotating tokens of profile "${name}" (region: ${(profile.region || 'us').toUpperCase()})`, 'cyan'));
+  const masterToken = await promptForToken('Master token', profile.masterToken, profile.region || 'us');
+  const userToken = await promptForToken('User token', profile.userToken, profile.region || 'us');
+  if (masterToken === profile.masterToken && userToken === profile.userToken) {
+    console.log(colorize('⏭️  No tokens changed', 'dim'));
+    return;
+  }
+
+  await saveConfig({ ...config, profiles: { ...profiles, [name]: { ...profile, masterToken, userToken } } });
+  console.log(colorize(`✓ Rotated tokens of profile "${name}"`, 'green'));
+}
+
+async function manageProfiles(): Promise<void> {
+  while (true) {
+    const config = await loadExistingConfig();
+
+    console.log(colorize('\nWhat would you like to do?', 'cyan'));
+    console.log('1) Add a profile');
+    console.log('2) Edit a profile');
+    console.log('3) Remove a profile');
+    console.log('4) List profiles');
+    console.log('5) Set the default profile');
+    console.log('6) Rotate a profile\'s tokens');
+    console.log(isVaultEnabled() ? '7) Store tokens in plaintext again' : '7) Encrypt tokens with a passphrase');
+    console.log('8) Exit');
+
+    const choice = (await question(colorize('Choose an option (1-8, default: 8): ', 'white'))).trim() || '8';
+
+    if (choice === '1') {
+      const name = await promptForNewProfileName(config);
+      if (name) {
+        await configureProfile(config, name);
+      }
+    } else if (choice === '2') {
+      const name = await promptForExistingProfile(config, 'edit');
+      if (name) {
+        await configureProfile(config, name);
+      }
+    } else if (choice === '3') {
+      const name = await promptForExistingProfile(config, 'remove');
+      if (name) {
+        await removeProfile(config, name);
+      }
+    } else if (choice === '4') {
+      printProfiles(config);
+    } else if (choice === '5') {
+      const name = await promptForExistingProfile(config, 'use by default');
+      if (name) {
+        await setDefaultProfile(config, name);
+      }
+    } else if (choice === '6') {
+      const name = await promptForExistingProfile(config, 'rotate tokens for');
+      if (name) {
+        await rotateTokens(config, name);
+      }
+    } else if (choice === '7') {
+      if (isVaultEnabled()) {
+        await decryptTokens(config);
+      } else {
+        await encryptTokens(config);
+      }
+    } else {
+      console.log(colorize('\n✅ Done.', 'green'));
+      return;
+    }
   }
-  
-  return true;
 }
 
 async function main() {
@@ -264,13 +493,20 @@ async function main() {
     const isAutoSetup = args.includes('--auto-setup');
     
     if (isAutoSetup) {
-      // Auto-setup mode for postinstall - check if config exists, if not, run setup
-      const existing = await loadExistingConfig();
+      // Auto-setup mode for postinstall - check if config exists, if not, run setup.
+      // An encrypted vault means tokens are configured; it cannot be opened without a prompt.
+      const existing = isVaultEnabled() ? {} : await loadExistingConfig();
       
-      if (existing.masterToken || existing.userToken) {
+      if (isVaultEnabled() || Object.values(listProfiles(existing)).some(hasTokens)) {
         console.log(colorize('✅ Tray MCP Server tokens already configured!', 'green'));
         console.log('Run ' + colorize('tray-mcp-server --setup', 'cyan') + ' to reconfigure if needed.');
         return;
+      } else if (!process.stdin.isTTY || process.env.CI) {
+        // Nobody can answer prompts in CI or a Docker build, so do not wait for them
+        console.log(colorize('🔧 Tray MCP Server installed. Skipping interactive setup (no terminal).', 'cyan'));
+        console.log('Configure it with: ' + colorize('tray-mcp-server config set --master-token <token> --region us', 'cyan'));
+        console.log('Or set environment variables, e.g. TRAY_TOKEN_US');
+        return;
       } else {
         console.log(colorize('\n🔧 Tray MCP Server installed successfully!', 'cyan'));
         console.log(colorize('Let\'s configure your API tokens now...', 'white'));
@@ -288,8 +524,11 @@ async function main() {
         
         const config = await promptForTokens();
         
-        if (config.masterToken || config.userToken) {
-          await saveConfig(config);
+        if (hasTokens(config)) {
+          await saveConfig({
+            defaultProfile: DEFAULT_PROFILE_NAME,
+            profiles: { [DEFAULT_PROFILE_NAME]: config },
+          });
           printUsageInstructions(config);
         } else {
           console.log(colorize('\n⚠️  No tokens were provided.', 'yellow'));
@@ -312,26 +551,33 @@ async function main() {
     printHeader();
     printTokenInfo();
     
-    const shouldConfigure = await checkExistingConfig();
+    const existing = await loadExistingConfig();
+    const profileName = getArgValue(args, '--profile');
     
-    if (shouldConfigure) {
-      const config = await promptForTokens();
-      
-      if (config.masterToken || config.userToken) {
-        await saveConfig(config);
-        printUsageInstructions(config);
-      } else {
-        console.log(colorize('\n⚠️  No tokens were provided. Setup cancelled.', 'yellow'));
-        console.log('Run ' + colorize('npx tray-mcp-server --setup', 'cyan') + ' to configure tokens later.');
+    if (args.includes('--encrypt')) {
+      await encryptTokens(existing, getArgValue(args, '--key-file'));
+    } else if (args.includes('--decrypt')) {
+      await decryptTokens(existing);
+    } else if (args.includes('--rotate-token')) {
+      const name = profileName || await promptForExistingProfile(existing, 'rotate tokens for');
+      if (name) {
+        await rotateTokens(existing, name);
+      }
+    } else if (profileName) {
+      // Jump straight to adding or editing the profile named on the command line
+      await configureProfile(existing, profileName);
+    } else if (Object.keys(listProfiles(existing)).length === 0) {
+      const name = await promptForNewProfileName(existing);
+      if (name) {
+        await configureProfile(existing, name);
       }
     } else {
-      console.log(colorize('\n✅ Keeping existing configuration.', 'green'));
-      const existing = await loadExistingConfig();
-      printUsageInstructions(existing);
+      printProfiles(existing);
+      await manageProfiles();
     }
     
   } catch (error) {
-    console.error(colorize('\n❌ Setup failed:', 'red'), error);
+    console.error(colorize('\n❌ Setup failed:', 'red'), redactText(error instanceof Error ? error.message : String(error)));
     process.exit(1);
   } finally {
     if (rl) {
@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile } from 'fs/promises';
+import { join, relative, resolve, sep } from 'path';
+import { getConfigDir, resolveWithin } from './config.js';
+import type { TrayRegion } from './config.js';
+import { safeSegment } from './cache.js';
+import { getHttpClient } from './http.js';
+import { writePrivateFile } from './vault.js';
+
+// Project exports saved to disk, so they can be reused instead of being pasted into the conversation
+
+export interface SnapshotPolicy {
+  directory: string;
+}
+
+export function getDefaultSnapshotDir(): string {
+  return join(getConfigDir(), 'snapshots');
+}
+
+let snapshotPolicy: SnapshotPolicy = { directory: getDefaultSnapshotDir() };
+
+export function configureSnapshotStore(overrides: Partial<SnapshotPolicy>): SnapshotPolicy {
+  snapshotPolicy = {
+    directory: typeof overrides.directory === 'string' && overrides.directory.trim() !== ''
+      ? resolve(overrides.directory)
+      : getDefaultSnapshotDir(),
+  };
+  return snapshotPolicy;
+}
+
+export function getSnapshotPolicy(): SnapshotPolicy {
+  return snapshotPolicy;
+}
+
+export const SNAPSHOT_URI_PREFIX = 'tray://snapshots/';
+
+export interface SnapshotEntry {
+  // <projectId>/<versionNumber>/<timestamp>
+  id: string;
+  projectId: string;
+  projectName?: string;
+  versionNumber: string;
+  region: TrayRegion;
+  savedAt: string;
+  // Relative to the store directory
+  file: string;
+  sizeBytes: number;
+  sha256: string;
+  workflows: number;
+  // The HTTP client that saved it; absent on stdio
+  client?: string;
+}
+
+interface SnapshotManifest {
+  version: 1;
+  snapshots: SnapshotEntry[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+
+// HTTP clients mapped to a profile only see the exports they saved, as with the audit log
+function isVisible(entry: SnapshotEntry): boolean {
+  const client = getHttpClient();
+  return !client?.profile || entry.client === client.name;
+}
+
+async function readManifest(directory: string): Promise<SnapshotManifest> {
+  try {
+    const manifest = JSON.parse(await readFile(join(directory, MANIFEST_FILE), 'utf-8')) as SnapshotManifest;
+    return { version: 1, snapshots: Array.isArray(manifest.snapshots) ? manifest.snapshots : [] };
+  } catch (error) {
+    return { version: 1, snapshots: [] };
+  }
+}
+
+// Manifest updates are chained so concurrent saves do not drop each other's entries
+let manifestQueue: Promise<unknown> = Promise.resolve();
+
+// Save an export as <directory>/<projectId>/<versionNumber>/<timestamp>.json and add it to the manifest
+export function saveSnapshot(
+  data: { workflows?: unknown[]; project?: { name?: string } },
+  meta: { projectId: string; versionNumber: string; region: TrayRegion },
+  directory: string = snapshotPolicy.directory
+): Promise<SnapshotEntry & { path: string }> {
+  const client = getHttpClient();
+  const save = async () => {
+    const savedAt = new Date().toISOString();
+    const timestamp = savedAt.replace(/[:.]/g, '-');
+    const segments = [safeSegment(meta.projectId), safeSegment(meta.versionNumber), `${timestamp}.json`];
+    const path = join(directory, ...segments);
+    const content = JSON.stringify(data, null, 2);
+
+    await mkdir(join(directory, segments[0], segments[1]), { recursive: true });
+    await writePrivateFile(path, content);
+
+    const entry: SnapshotEntry = {
+      id: `${segments[0]}/${segments[1]}/${timestamp}`,
+      projectId: meta.projectId,
+      ...(data.project?.name && { projectName: data.project.name }),
+      versionNumber: meta.versionNumber,
+      region: meta.region,
+      savedAt,
+      file: segments.join('/'),
+      sizeBytes: Buffer.byteLength(content),
+      sha256: createHash('sha256').update(content).digest('hex'),
+      workflows: data.workflows?.length || 0,
+      ...(client && { client: client.name }),
+    };
+    const manifest = await readManifest(directory);
+    manifest.snapshots.push(entry);
+    await writePrivateFile(join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    return { ...entry, path };
+  };
+
+  const saved = manifestQueue.then(save, save);
+  manifestQueue = saved.catch(() => undefined);
+  return saved;
+}
+
+// Snapshots in the store the current client may see, newest first
+export async function listSnapshots(filter: { projectId?: string; versionNumber?: string } = {}): Promise<SnapshotEntry[]> {
+  const { snapshots } = await readManifest(snapshotPolicy.directory);
+  return snapshots
+    .filter(isVisible)
+    .filter((entry) => !filter.projectId || entry.projectId === filter.projectId)
+    .filter((entry) => !filter.versionNumber || entry.versionNumber === filter.versionNumber)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export function snapshotUri(entry: SnapshotEntry): string {
+  return `${SNAPSHOT_URI_PREFIX}${entry.id}`;
+}
+
+// A snapshot by its id, where "latest" as the timestamp picks the newest one of that version
+export async function findSnapshot(id: string): Promise<SnapshotEntry | undefined> {
+  const [projectId, versionNumber, timestamp] = id.split('/');
+  const snapshots = (await listSnapshots())
+    .filter((entry) => entry.id.startsWith(`${safeSegment(projectId || '')}/${safeSegment(versionNumber || '')}/`));
+  return timestamp === 'latest' ? snapshots[0] : snapshots.find((entry) => entry.id === id);
+}
+
+// Load a saved export from a tray://snapshots/... URI, or a file path in the snapshot store
+// (relative to it). Files outside the store, and other clients' exports, are refused.
+export async function loadSnapshot<T>(location: string): Promise<{ data: T; path: string }> {
+  let path: string;
+  if (location.startsWith(SNAPSHOT_URI_PREFIX)) {
+    const id = decodeURIComponent(location.slice(SNAPSHOT_URI_PREFIX.length));
+    const entry = await findSnapshot(id);
+    if (!entry) {
+      throw new Error(`No saved export ${location} in ${snapshotPolicy.directory}`);
+    }
+    path = resolveWithin(snapshotPolicy.directory, entry.file);
+  } else {
+    path = resolveWithin(snapshotPolicy.directory, location);
+    if (getHttpClient()?.profile) {
+      const file = relative(snapshotPolicy.directory, path).split(sep).join('/');
+      if (!(await listSnapshots()).some((entry) => entry.file === file)) {
+        throw new Error(`No saved export ${location} in ${snapshotPolicy.directory}`);
+      }
+    }
+  }
+
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read the export at ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return { data: JSON.parse(content) as T, path };
+  } catch (error) {
+    throw new Error(`The export at ${path} is not valid JSON`);
+  }
+}
+
@@ -0,0 +1,203 @@
+import Ajv from 'ajv';
+import type { ErrorObject, ValidateFunction } from 'ajv';
+
+// A problem with a connector call's input, phrased so an agent can fix it.
+// Unknown keys are warnings unless the schema forbids additional properties.
+export interface InputValidationIssue {
+  path: string;
+  kind: 'missing' | 'type' | 'unknown' | 'enum' | 'invalid';
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface InputValidationResult {
+  valid: boolean;
+  // False when the operation schema could not be fetched or compiled, so nothing was checked
+  checked: boolean;
+  issues: InputValidationIssue[];
+}
+
+// Tray schemas use draft-04 and vendor keywords, so keep Ajv lenient about the schema itself
+const ajv = new Ajv({ allErrors: true, verbose: true, strict: false, validateFormats: false, validateSchema: false, addUsedSchema: false });
+
+// Validators by the inputSchema they were compiled from. Ajv caches by schema object, but the
+// schema is copied without $schema before compiling, so its cache would never hit.
+const compiledSchemas = new WeakMap<object, ValidateFunction>();
+
+// JSON pointer (/a/b/0) to the dotted form agents write (input.a.b[0])
+function toPath(pointer: string, child?: string): string {
+  const segments = pointer.split('/').slice(1).map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  if (child !== undefined) {
+    segments.push(child);
+  }
+  return segments.reduce((path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : `${path}.${segment}`), 'input');
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function valueAt(input: unknown, pointer: string): unknown {
+  return pointer
+    .split('/')
+    .slice(1)
+    .reduce<any>((value, segment) => (value == null ? undefined : value[segment.replace(/~1/g, '/').replace(/~0/g, '~')]), input);
+}
+
+// Levenshtein distance, to suggest the property a misspelled key was meant to be
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function suggestion(key: string, known: string[]): string {
+  const lower = key.toLowerCase();
+  const closest = known
+    .map((name) => ({ name, distance: editDistance(lower, name.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return closest && closest.distance <= Math.max(2, Math.floor(key.length / 3)) ? ` Did you mean "${closest.name}"?` : '';
+}
+
+function fromAjvError(error: ErrorObject, input: unknown): InputValidationIssue {
+  const params = error.params as Record<string, any>;
+  switch (error.keyword) {
+    case 'required':
+      return {
+        path: toPath(error.instancePath, params.missingProperty),
+        kind: 'missing',
+        severity: 'error',
+        message: `Missing required field "${params.missingProperty}"`,
+      };
+    case 'type':
+      return {
+        path: toPath(error.instancePath),
+        kind: 'type',
+        severity: 'error',
+        message: `Expected ${params.type} but got ${describeType(valueAt(input, error.instancePath))}`,
+      };
+    case 'additionalProperties': {
+      const parent: unknown = error.parentSchema;
+      const declared = typeof parent === 'object' && parent !== null && 'properties' in parent ? parent.properties : undefined;
+      const properties = typeof declared === 'object' && declared !== null ? Object.keys(declared) : [];
+      return {
+        path: toPath(error.instancePath, params.additionalProperty),
+        kind: 'unknown',
+        severity: 'error',
+        message: `Unknown field "${params.additionalProperty}" is not allowed.${suggestion(params.additionalProperty, properties)}`,
+      };
+    }
+    case 'enum':
+      return {
+        path: toPath(error.instancePath),
+        kind: 'enum',
+        severity: 'error',
+        message: `Must be one of: ${(params.allowedValues || []).map((value: unknown) => JSON.stringify(value)).join(', ')}`,
+      };
+    default:
+      return {
+        path: toPath(error.instancePath),
+        kind: 'invalid',
+        severity: 'error',
+        message: error.message || `Failed "${error.keyword}" check`,
+      };
+  }
+}
+
+// Keys the schema does not declare, for objects that do not explicitly forbid extras
+// (Ajv already reports those). Often a typo, so they are flagged as warnings.
+function findUnknownKeys(schema: any, value: any, pointer: string, issues: InputValidationIssue[]): void {
+  if (!schema || typeof schema !== 'object' || value === null || typeof value !== 'object') {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => findUnknownKeys(schema.items, item, `${pointer}/${i}`, issues));
+    }
+    return;
+  }
+
+  const properties = schema.properties;
+  if (!properties || typeof properties !== 'object') {
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key in properties) {
+      findUnknownKeys(properties[key], child, `${pointer}/${key}`, issues);
+    } else if (schema.additionalProperties === undefined && !schema.patternProperties) {
+      issues.push({
+        path: toPath(pointer, key),
+        kind: 'unknown',
+        severity: 'warning',
+        message: `Field "${key}" is not in the operation schema and may be ignored.${suggestion(key, Object.keys(properties))}`,
+      });
+    }
+  }
+}
+
+// Check a call-connector input against the operation's inputSchema
+export function validateOperationInput(inputSchema: unknown, input: unknown): InputValidationResult {
+  if (!inputSchema || typeof inputSchema !== 'object') {
+    return { valid: true, checked: false, issues: [] };
+  }
+
+  let validate = compiledSchemas.get(inputSchema);
+  try {
+    if (!validate) {
+      // Ajv 8 does not know the draft-04 meta-schema, and the keywords it checks are compatible
+      const { $schema, ...schema } = inputSchema as Record<string, unknown>;
+      validate = ajv.compile(schema);
+      // The copy is never compiled again; dropping it from Ajv's own cache leaves only the WeakMap entry
+      ajv.removeSchema(schema);
+      compiledSchemas.set(inputSchema, validate);
+    }
+  } catch (error) {
+    return {
+      valid: true,
+      checked: false,
+      issues: [{
+        path: 'input',
+        kind: 'invalid',
+        severity: 'warning',
+        message: `The operation schema could not be compiled, so the input was not checked: ${error instanceof Error ? error.message : String(error)}`,
+      }],
+    };
+  }
+
+  const issues: InputValidationIssue[] = [];
+  if (!validate(input)) {
+    // oneOf/anyOf report one error per branch; keep one issue per path and message
+    const seen = new Set<string>();
+    for (const error of validate.errors || []) {
+      const issue = fromAjvError(error, input);
+      const key = `${issue.path}|${issue.message}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        issues.push(issue);
+      }
+    }
+  }
+  findUnknownKeys(inputSchema, input, '', issues);
+
+  return { valid: !issues.some((issue) => issue.severity === 'error'), checked: true, issues };
+}
+
+// Markdown list of validation issues, errors first
+export function formatValidationIssues(issues: InputValidationIssue[]): string {
+  return [...issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+    .map((issue) => `- ${issue.severity === 'error' ? '❌' : '⚠️'} \`${issue.path}\`: ${issue.message}`)
+    .join('\n');
+}
@@ -0,0 +1,144 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { chmod, readFile, stat, writeFile } from 'fs/promises';
+
+// Encrypted token storage: AES-256-GCM with a key derived by scrypt from a passphrase or a key file
+
+export type VaultKeySource = { keySource: 'passphrase' } | { keySource: 'keyFile'; keyFile: string };
+
+interface VaultFile {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  keySource: 'passphrase' | 'keyFile';
+  keyFile?: string;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+// The vault exists but there is no passphrase or key file to open it with
+export class VaultLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+// N=2^15 needs 32 MiB, just over Node's default scrypt memory limit
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Passphrase entered during --setup; the server reads TRAY_VAULT_PASSPHRASE instead
+let unlockedPassphrase: string | undefined;
+
+export function unlockVault(passphrase: string): void {
+  unlockedPassphrase = passphrase;
+}
+
+// chmod 600 when group or others can read the file. Returns whether anything changed.
+export async function restrictPermissions(path: string): Promise<boolean> {
+  if (process.platform === 'win32') {
+    return false;
+  }
+  const { mode } = await stat(path);
+  if ((mode & 0o077) === 0) {
+    return false;
+  }
+  await chmod(path, 0o600);
+  return true;
+}
+
+export async function writePrivateFile(path: string, content: string): Promise<void> {
+  await writeFile(path, content, { encoding: 'utf-8', mode: 0o600 });
+  // The mode only applies when the file is created
+  await restrictPermissions(path);
+}
+
+// A new key file with 32 random bytes, hex encoded
+export async function createVaultKeyFile(path: string): Promise<void> {
+  await writePrivateFile(path, `${randomBytes(32).toString('hex')}\n`);
+}
+
+async function keySecret(source: VaultKeySource): Promise<string> {
+  if (source.keySource === 'keyFile') {
+    const keyFile = process.env.TRAY_VAULT_KEY_FILE || source.keyFile;
+    try {
+      return (await readFile(keyFile, 'utf-8')).trim();
+    } catch (error) {
+      throw new VaultLockedError(
+        `Tokens are encrypted with the key file ${keyFile}, which could not be read. ` +
+        `Restore it or point TRAY_VAULT_KEY_FILE at it.`
+      );
+    }
+  }
+
+  const passphrase = unlockedPassphrase || process.env.TRAY_VAULT_PASSPHRASE;
+  if (!passphrase) {
+    throw new VaultLockedError(
+      'Tokens are encrypted with a passphrase. Set TRAY_VAULT_PASSPHRASE to start the server, ' +
+      'or run: tray-mcp-server --setup --decrypt to store them in plaintext again.'
+    );
+  }
+  return passphrase;
+}
+
+function deriveKey(secret: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret, salt, 32, SCRYPT_OPTIONS, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+async function readVaultFile(path: string): Promise<VaultFile> {
+  const vault = JSON.parse(await readFile(path, 'utf-8')) as VaultFile;
+  if (vault.version !== 1 || vault.cipher !== 'aes-256-gcm' || vault.kdf !== 'scrypt') {
+    throw new Error(`Unsupported vault format in ${path}`);
+  }
+  return vault;
+}
+
+function keySourceOf(vault: VaultFile): VaultKeySource {
+  return vault.keySource === 'keyFile' ? { keySource: 'keyFile', keyFile: vault.keyFile || '' } : { keySource: 'passphrase' };
+}
+
+export async function readVaultKeySource(path: string): Promise<VaultKeySource> {
+  return keySourceOf(await readVaultFile(path));
+}
+
+export async function decryptVault<T>(path: string): Promise<T> {
+  const vault = await readVaultFile(path);
+  const key = await deriveKey(await keySecret(keySourceOf(vault)), Buffer.from(vault.salt, 'base64'));
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(vault.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(vault.data, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf-8')) as T;
+  } catch (error) {
+    throw new VaultLockedError(
+      `Could not decrypt ${path}: the ${vault.keySource === 'keyFile' ? 'key file' : 'passphrase'} is wrong or the file was modified.`
+    );
+  }
+}
+
+// Encrypt with a fresh salt and IV on every write
+export async function encryptVault(path: string, secrets: unknown, source: VaultKeySource): Promise<void> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await deriveKey(await keySecret(source), salt);
+
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+  const vault: VaultFile = {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    keySource: source.keySource,
+    ...(source.keySource === 'keyFile' && { keyFile: source.keyFile }),
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+  await writePrivateFile(path, JSON.stringify(vault, null, 2));
+}
@@ -0,0 +1,94 @@
+// Batch runner checkpoints: what they record, resuming from them, and failed writes
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runBatch } from '../dist/batch.js';
+
+const OPTIONS = { concurrency: 1, ratePerSecond: 0, maxFailures: 0, jobKey: 'job-1' };
+
+let directory;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'tray-batch-'));
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+async function readCheckpoint(path) {
+  return (await readFile(path, 'utf-8')).split('\n').filter(Boolean).map((line) => JSON.parse(line));
+}
+
+describe('checkpoints', () => {
+  it('records status and error, never call outputs', async () => {
+    const checkpointPath = join(directory, 'outputs.jsonl');
+    await runBatch([1, 2], async (input) => {
+      if (input === 2) throw new Error('bad input');
+      return { apiKey: 'secret' };
+    }, { ...OPTIONS, checkpointPath });
+
+    const [header, ...items] = await readCheckpoint(checkpointPath);
+    assert.equal(header.type, 'batch');
+    assert.deepEqual(items.map(({ durationMs, ...item }) => item), [
+      { type: 'item', index: 0, status: 'success' },
+      { type: 'item', index: 1, status: 'error', error: 'bad input' },
+    ]);
+  });
+
+  it('skips items that succeeded in an earlier run', async () => {
+    const checkpointPath = join(directory, 'resume.jsonl');
+    let fail = true;
+    const worker = async (input) => {
+      if (input === 2 && fail) throw new Error('flaky');
+      return input;
+    };
+    await runBatch([1, 2, 3], worker, { ...OPTIONS, checkpointPath });
+
+    fail = false;
+    const started = [];
+    const run = await runBatch([1, 2, 3], async (input) => { started.push(input); return worker(input); }, { ...OPTIONS, checkpointPath });
+
+    assert.deepEqual(started, [2]);
+    assert.equal(run.resumed, 2);
+    assert.ok(run.results.every((result) => result.status === 'success'));
+  });
+
+  it('stops and reports a checkpoint that can no longer be written', async () => {
+    const checkpointPath = join(directory, 'broken.jsonl');
+    const run = await runBatch([1, 2, 3, 4], async (input) => {
+      if (input === 1) {
+        // Appending to a directory fails
+        await rm(checkpointPath);
+        await mkdir(checkpointPath);
+      }
+      return input;
+    }, { ...OPTIONS, checkpointPath });
+
+    assert.equal(run.stopped, 'checkpoint-failed');
+    assert.match(run.checkpointError, /EISDIR/);
+    assert.deepEqual(run.results.map((result) => result.status), ['success', 'skipped', 'skipped', 'skipped']);
+  });
+
+  it('lets running items finish after a failed write', async () => {
+    const checkpointPath = join(directory, 'concurrent.jsonl');
+    const finished = [];
+    const run = await runBatch([1, 2, 3, 4, 5, 6], async (input) => {
+      if (input === 1) {
+        await rm(checkpointPath);
+        await mkdir(checkpointPath);
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      finished.push(input);
+      return input;
+    }, { ...OPTIONS, concurrency: 3, checkpointPath });
+
+    assert.equal(run.stopped, 'checkpoint-failed');
+    // Items 2 and 3 were already running and finish; nothing new starts
+    assert.deepEqual(finished.sort(), [1, 2, 3]);
+    assert.deepEqual(run.results.map((result) => result.status), ['success', 'success', 'success', 'skipped', 'skipped', 'skipped']);
+  });
+});
@@ -0,0 +1,201 @@
+// Retry, backoff and rate-limit behaviour of the Tray API client, against a local mock server.
+// Runs on the compiled output: npm test builds first.
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { TokenBucket, configureRequestPolicy, makeTrayRequest, retryDelay } from '../dist/client.js';
+import { TrayApiError } from '../dist/errors.js';
+
+// Each test queues the responses the mock returns, in order; requests are recorded
+let responses = [];
+let requests = [];
+
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    requests.push({ method: req.method, url: req.url, body, at: Date.now() });
+    const next = responses.shift() || { status: 200, body: { ok: true } };
+    res.writeHead(next.status, { 'Content-Type': 'application/json', ...(next.headers || {}) });
+    res.end(JSON.stringify(next.body ?? {}));
+  });
+});
+
+// Fast retries and no client-side rate limit unless a test sets one
+const FAST_POLICY = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 20, rateLimitPerSecond: 0 };
+
+before(async () => {
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  process.env.TRAY_API_BASE_URL = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => {
+  delete process.env.TRAY_API_BASE_URL;
+  server.close();
+});
+
+afterEach(() => {
+  responses = [];
+  requests = [];
+  configureRequestPolicy(FAST_POLICY);
+});
+
+describe('Retry-After', () => {
+  it('waits for Retry-After seconds on a 429, then retries', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [
+      { status: 429, headers: { 'Retry-After': '1' }, body: { message: 'Too many requests' } },
+      { status: 200, body: { ok: true } },
+    ];
+
+    const data = await makeTrayRequest('/core/v1/workspaces', 'token-1');
+
+    assert.deepEqual(data, { ok: true });
+    assert.equal(requests.length, 2);
+    assert.ok(requests[1].at - requests[0].at >= 950, `retried after ${requests[1].at - requests[0].at}ms`);
+  });
+
+  it('retries a rate-limited mutation, since Tray never processed it', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [
+      { status: 429, headers: { 'Retry-After': '0' } },
+      { status: 200, body: { created: true } },
+    ];
+
+    const data = await makeTrayRequest('/core/v1/authentications', 'token-1', { method: 'POST', body: { name: 'x' } });
+
+    assert.deepEqual(data, { created: true });
+    assert.equal(requests.length, 2);
+  });
+
+  it('returns the error when Retry-After is longer than maxRetryAfterMs', async () => {
+    configureRequestPolicy({ ...FAST_POLICY, maxRetryAfterMs: 500 });
+    responses = [{ status: 429, headers: { 'Retry-After': '30' } }];
+
+    await assert.rejects(makeTrayRequest('/core/v1/workspaces', 'token-1'), (error) => {
+      assert.ok(error instanceof TrayApiError);
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterSeconds, 30);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+});
+
+describe('idempotency', () => {
+  it('retries GET requests on transient failures', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [{ status: 503 }, { status: 502 }, { status: 200, body: { ok: true } }];
+
+    assert.deepEqual(await makeTrayRequest('/core/v1/workspaces', 'token-1'), { ok: true });
+    assert.equal(requests.length, 3);
+  });
+
+  it('does not retry a non-idempotent POST', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [{ status: 503 }, { status: 200 }];
+
+    await assert.rejects(
+      makeTrayRequest('/core/v1/connectors/crm/versions/1.0/call', 'token-1', { method: 'POST', body: {} }),
+      (error) => error instanceof TrayApiError && error.status === 503
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  it('retries a POST marked idempotent', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [{ status: 503 }, { status: 200, body: { ok: true } }];
+
+    const data = await makeTrayRequest('/core/v1/connectors/crm/versions/1.0/call', 'token-1', {
+      method: 'POST',
+      body: {},
+      idempotent: true,
+    });
+
+    assert.deepEqual(data, { ok: true });
+    assert.equal(requests.length, 2);
+  });
+
+  it('never retries errors that are not transient', async () => {
+    configureRequestPolicy(FAST_POLICY);
+    responses = [{ status: 400, body: { message: 'bad input' } }, { status: 200 }];
+
+    await assert.rejects(makeTrayRequest('/core/v1/workspaces', 'token-1'), (error) => error.status === 400);
+    assert.equal(requests.length, 1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    configureRequestPolicy({ ...FAST_POLICY, maxRetries: 2 });
+    responses = [{ status: 503 }, { status: 503 }, { status: 503 }, { status: 200 }];
+
+    await assert.rejects(makeTrayRequest('/core/v1/workspaces', 'token-1'), (error) => error.status === 503);
+    assert.equal(requests.length, 3);
+  });
+});
+
+describe('backoff', () => {
+  const transient = new TrayApiError({ status: 503, message: 'unavailable', method: 'GET', path: '/', region: 'us' });
+
+  it('draws each delay at random between 0 and the exponential ceiling', () => {
+    configureRequestPolicy({ ...FAST_POLICY, baseDelayMs: 100, maxDelayMs: 10000 });
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const ceiling = 100 * 2 ** attempt;
+      const delays = Array.from({ length: 200 }, () => retryDelay(transient, attempt));
+      assert.ok(delays.every((delay) => delay >= 0 && delay <= ceiling), `attempt ${attempt} exceeded ${ceiling}ms`);
+      // Full jitter spreads the delays over the whole range instead of repeating one value
+      assert.ok(new Set(delays).size > 10, `attempt ${attempt} is not jittered`);
+      assert.ok(Math.max(...delays) > ceiling / 2);
+    }
+  });
+
+  it('caps the ceiling at maxDelayMs', () => {
+    configureRequestPolicy({ ...FAST_POLICY, baseDelayMs: 100, maxDelayMs: 300 });
+    const delays = Array.from({ length: 200 }, () => retryDelay(transient, 10));
+    assert.ok(delays.every((delay) => delay <= 300));
+  });
+
+  it('uses Retry-After instead of backoff when the server sends one', () => {
+    configureRequestPolicy({ ...FAST_POLICY, maxRetryAfterMs: 60000 });
+    const limited = new TrayApiError({ status: 429, message: 'slow down', method: 'GET', path: '/', region: 'us', retryAfterSeconds: 2 });
+    assert.equal(retryDelay(limited, 0), 2000);
+    assert.equal(retryDelay(limited, 3), 2000);
+  });
+});
+
+describe('rate limiting', () => {
+  it('lets a burst through, then paces calls at the rate', async () => {
+    const bucket = new TokenBucket(10, 2);
+    const started = Date.now();
+    await bucket.take();
+    await bucket.take();
+    assert.ok(Date.now() - started < 50, 'the burst was delayed');
+
+    await bucket.take();
+    await bucket.take();
+    await bucket.take();
+    // Three more tokens at 10 per second take about 300ms
+    const elapsed = Date.now() - started;
+    assert.ok(elapsed >= 250 && elapsed < 1000, `took ${elapsed}ms`);
+  });
+
+  it('throttles Tray requests per token', async () => {
+    configureRequestPolicy({ ...FAST_POLICY, rateLimitPerSecond: 5, rateLimitBurst: 1 });
+
+    const started = Date.now();
+    await Promise.all([1, 2, 3].map(() => makeTrayRequest('/core/v1/workspaces', 'token-rate')));
+    const elapsed = Date.now() - started;
+
+    assert.equal(requests.length, 3);
+    // One request from the burst, then two more at 5 per second
+    assert.ok(elapsed >= 350, `3 requests took ${elapsed}ms`);
+  });
+
+  it('keeps separate buckets for separate tokens', async () => {
+    configureRequestPolicy({ ...FAST_POLICY, rateLimitPerSecond: 1, rateLimitBurst: 1 });
+
+    const started = Date.now();
+    await Promise.all(['token-a', 'token-b', 'token-c'].map((token) => makeTrayRequest('/core/v1/workspaces', token)));
+
+    assert.ok(Date.now() - started < 500, 'tokens shared a bucket');
+  });
+});
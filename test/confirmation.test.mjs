@@ -0,0 +1,58 @@
+// Confirmation tokens for destructive tools: single use, expiry and what they are bound to
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { CONFIRMATION_TTL_MS, callerFingerprint, issueConfirmationToken, redeemConfirmationToken } from '../dist/confirmation.js';
+
+const CALLER = callerFingerprint('tray-token-1');
+
+afterEach(() => {
+  mock.timers.reset();
+});
+
+describe('confirmation tokens', () => {
+  it('are long random hex strings', () => {
+    const { confirmationToken } = issueConfirmationToken('delete-subscription', 's1', 'us', CALLER);
+    assert.match(confirmationToken, /^[0-9a-f]{32}$/);
+    assert.notEqual(issueConfirmationToken('delete-subscription', 's1', 'us', CALLER).confirmationToken, confirmationToken);
+  });
+
+  it('can be used once', () => {
+    const { confirmationToken } = issueConfirmationToken('delete-subscription', 's1', 'us', CALLER);
+    assert.equal(redeemConfirmationToken(confirmationToken, 'delete-subscription', 's1', 'us', CALLER), undefined);
+    assert.match(redeemConfirmationToken(confirmationToken, 'delete-subscription', 's1', 'us', CALLER), /unknown or has expired/);
+  });
+
+  it('expire after the TTL', () => {
+    mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+    const { confirmationToken, expiresAt } = issueConfirmationToken('delete-authentication', 'a1', 'eu', CALLER);
+    assert.equal(expiresAt, new Date(1_000_000 + CONFIRMATION_TTL_MS).toISOString());
+
+    mock.timers.tick(CONFIRMATION_TTL_MS);
+    assert.match(redeemConfirmationToken(confirmationToken, 'delete-authentication', 'a1', 'eu', CALLER), /unknown or has expired/);
+  });
+
+  it('only work for the action, resource and region they were issued for', () => {
+    const { confirmationToken } = issueConfirmationToken('delete-subscription', 's1', 'us', CALLER);
+
+    for (const [action, resourceId, region] of [['delete-authentication', 's1', 'us'], ['delete-subscription', 's2', 'us'], ['delete-subscription', 's1', 'eu']]) {
+      assert.match(redeemConfirmationToken(confirmationToken, action, resourceId, region, CALLER), /issued for delete-subscription of s1 \(region: us\)/);
+    }
+    // A rejected attempt does not use the token up
+    assert.equal(redeemConfirmationToken(confirmationToken, 'delete-subscription', 's1', 'us', CALLER), undefined);
+  });
+
+  it('only work for the caller they were issued to', () => {
+    const { confirmationToken } = issueConfirmationToken('delete-subscription', 's1', 'us', CALLER);
+
+    assert.match(
+      redeemConfirmationToken(confirmationToken, 'delete-subscription', 's1', 'us', callerFingerprint('tray-token-2')),
+      /issued to another client or Tray token/
+    );
+  });
+
+  it('identify callers by a hash, not the Tray token itself', () => {
+    assert.match(CALLER, /^[0-9a-f]{64}$/);
+    assert.ok(!CALLER.includes('tray-token-1'));
+    assert.equal(callerFingerprint('tray-token-1'), CALLER);
+  });
+});
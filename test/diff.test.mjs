@@ -0,0 +1,98 @@
+// Semantic diff of project exports: workflows and steps matched by id, then by name
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffProjectExports, matchItems } from '../dist/diff.js';
+
+const LABELS = { from: 'v1', to: 'v2' };
+
+const step = (id, name, version = '1.0') => ({ id, name, connector: { name: 'http-client', version, operation: 'get_request' } });
+
+describe('matchItems', () => {
+  it('pairs by id first, then by a name unique on both sides', () => {
+    const { pairs, removed, added } = matchItems(
+      [{ id: '1', name: 'A' }, { id: '2', name: 'B' }, { id: '3', name: 'C' }],
+      [{ id: '1', name: 'Renamed' }, { id: '9', name: 'B' }, { id: '8', name: 'D' }]
+    );
+
+    assert.deepEqual(pairs.map((pair) => [pair.from.id, pair.to.id, pair.matchedBy]), [['1', '1', 'id'], ['2', '9', 'name']]);
+    assert.deepEqual(removed.map((item) => item.id), ['3']);
+    assert.deepEqual(added.map((item) => item.id), ['8']);
+  });
+
+  it('does not pair by a name that appears twice', () => {
+    const { pairs, removed, added } = matchItems(
+      [{ id: '1', name: 'Sync' }, { id: '2', name: 'Sync' }],
+      [{ id: '3', name: 'Sync' }]
+    );
+
+    assert.deepEqual(pairs, []);
+    assert.equal(removed.length, 2);
+    assert.equal(added.length, 1);
+  });
+});
+
+describe('diffProjectExports', () => {
+  it('reports nothing for identical exports', () => {
+    const data = { workflows: [{ id: 'w1', name: 'Sync', steps: [step('s1', 'Fetch')] }], config: { apiUrl: 'x' } };
+    const diff = diffProjectExports(data, structuredClone(data), LABELS);
+
+    assert.deepEqual(diff.workflows, []);
+    assert.ok(Object.values(diff.summary).every((count) => count === 0));
+  });
+
+  it('matches a renamed workflow by id', () => {
+    const diff = diffProjectExports(
+      { workflows: [{ id: 'w1', name: 'Sync', steps: [] }] },
+      { workflows: [{ id: 'w1', name: 'Nightly Sync', steps: [] }] },
+      LABELS
+    );
+
+    assert.equal(diff.workflows.length, 1);
+    assert.equal(diff.workflows[0].matchedBy, 'id');
+    assert.deepEqual(diff.workflows[0].changes, ['renamed from "Sync"']);
+    assert.equal(diff.summary.workflowsChanged, 1);
+  });
+
+  it('matches workflows and steps by name when ids changed on import, and reports what changed', () => {
+    const diff = diffProjectExports(
+      { workflows: [{ id: 'w1', name: 'Sync', steps: [step('s1', 'Fetch', '1.0')] }] },
+      { workflows: [{ id: 'w9', name: 'Sync', steps: [step('s9', 'Fetch', '2.0')] }] },
+      LABELS
+    );
+    const [workflow] = diff.workflows;
+
+    assert.equal(workflow.matchedBy, 'name');
+    assert.equal(workflow.id, 'w9');
+    assert.deepEqual(workflow.steps, [
+      { kind: 'changed', id: 's9', name: 'Fetch', matchedBy: 'name', changes: ['connector http-client v1.0 → v2.0'] },
+    ]);
+    assert.deepEqual(diff.connectorVersions, [{ connector: 'http-client', from: ['1.0'], to: ['2.0'] }]);
+    assert.equal(diff.summary.workflowsAdded, 0);
+    assert.equal(diff.summary.workflowsRemoved, 0);
+  });
+
+  it('reports unmatched workflows and steps as added and removed', () => {
+    const diff = diffProjectExports(
+      { workflows: [{ id: 'w1', name: 'Old', steps: [] }, { id: 'w2', name: 'Sync', steps: [step('s1', 'Fetch')] }] },
+      { workflows: [{ id: 'w3', name: 'New', steps: [step('s5', 'Post')] }, { id: 'w2', name: 'Sync', steps: [step('s2', 'Store')] }] },
+      LABELS
+    );
+
+    assert.deepEqual(diff.workflows.map((workflow) => [workflow.kind, workflow.name]), [['added', 'New'], ['removed', 'Old'], ['changed', 'Sync']]);
+    assert.deepEqual(diff.workflows[2].steps.map((change) => [change.kind, change.name]), [['added', 'Store'], ['removed', 'Fetch']]);
+    assert.equal(diff.summary.stepsAdded, 1);
+    assert.equal(diff.summary.stepsRemoved, 1);
+  });
+
+  it('reports config and authentication changes by key and name only', () => {
+    const diff = diffProjectExports(
+      { authentications: [{ id: 'a1', name: 'Slack' }], config: { apiUrl: 'x', password: 'old' } },
+      { authentications: [{ id: 'a1', name: 'Slack Prod' }, { id: 'a2', name: 'Jira' }], config: { apiUrl: 'x', password: 'new', region: 'eu' } },
+      LABELS
+    );
+
+    assert.deepEqual(diff.config, { added: ['region'], removed: [], changed: ['password'] });
+    assert.ok(!JSON.stringify(diff).includes('new'));
+    assert.deepEqual(diff.authentications, { added: ['Jira (a2)'], removed: [], renamed: ['Slack → Slack Prod (a1)'] });
+  });
+});
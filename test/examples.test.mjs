@@ -0,0 +1,48 @@
+// Example inputs generated from operation schemas, including $refs and recursive schemas
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateOperationInput } from '../dist/examples.js';
+
+describe('generateOperationInput', () => {
+  it('fills required fields in the minimal example and every field in the full one', () => {
+    const example = generateOperationInput({
+      type: 'object',
+      required: ['channel'],
+      properties: {
+        channel: { type: 'string', default: '#general' },
+        mode: { type: 'string', enum: ['fast', 'slow'] },
+      },
+    });
+
+    assert.deepEqual(example.minimal, { channel: '#general' });
+    assert.deepEqual(example.full, { channel: '#general', mode: 'fast' });
+  });
+
+  it('resolves $refs into definitions', () => {
+    const example = generateOperationInput({
+      type: 'object',
+      required: ['owner'],
+      properties: { owner: { $ref: '#/definitions/user' } },
+      definitions: { user: { type: 'object', required: ['id'], properties: { id: { type: 'integer', default: 7 } } } },
+    });
+
+    assert.deepEqual(example.minimal, { owner: { id: 7 } });
+  });
+
+  it('treats "#" as the root schema and stops expanding recursive schemas', () => {
+    const example = generateOperationInput({
+      type: 'object',
+      required: ['name', 'children'],
+      properties: {
+        name: { type: 'string', default: 'node' },
+        children: { type: 'array', items: { $ref: '#' } },
+      },
+    });
+
+    assert.deepEqual(example.minimal, { name: 'node', children: [] });
+    assert.equal(example.full.children[0].name, 'node');
+    assert.ok(Array.isArray(example.full.children[0].children));
+    assert.ok(example.fields.some((field) => field.path === 'input.children[0]' && field.type === 'object'));
+    assert.ok(example.fields.some((field) => field.note === 'Nested too deeply to expand'));
+  });
+});
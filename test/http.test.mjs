@@ -0,0 +1,135 @@
+// HTTP transport: the bearer check, sessions bound to clients, and clients mapped to profiles
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { loadHttpOverrides } from '../dist/config.js';
+import { configureHttpTransport, getHttpClient, startHttpServer } from '../dist/http.js';
+import { configureSnapshotStore, listSnapshots, saveSnapshot } from '../dist/snapshots.js';
+
+const CLIENTS = [
+  { name: 'alice', token: 'alice-token-0123456789', profile: 'eu-prod' },
+  { name: 'bob', token: 'bob-token-0123456789', profile: 'us-prod' },
+  { name: 'ci', token: 'ci-token-0123456789' },
+];
+
+// A server whose tools report what the transport bound the call to
+function createTestServer() {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const text = (value) => ({ content: [{ type: 'text', text: JSON.stringify(value) }] });
+  server.registerTool('whoami', { description: 'The calling client' }, async () => {
+    const client = getHttpClient();
+    return text(client ? { name: client.name, profile: client.profile ?? null } : null);
+  });
+  server.registerTool('save-export', { description: 'Save an export' }, async () =>
+    text(await saveSnapshot({ workflows: [] }, { projectId: 'p1', versionNumber: '1', region: 'us' })));
+  server.registerTool('list-exports', { description: 'List exports' }, async () =>
+    text((await listSnapshots()).map((entry) => entry.client ?? null)));
+  return server;
+}
+
+let server;
+let baseUrl;
+let snapshotDir;
+const connected = [];
+
+before(async () => {
+  snapshotDir = await mkdtemp(join(tmpdir(), 'tray-http-'));
+  configureSnapshotStore({ directory: snapshotDir });
+  configureHttpTransport({ ...loadHttpOverrides({ http: { clients: CLIENTS } }, []), port: 0 });
+  server = await startHttpServer(createTestServer);
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(async () => {
+  await Promise.all(connected.map((client) => client.close()));
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await rm(snapshotDir, { recursive: true, force: true });
+});
+
+async function connect(token) {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  await client.connect(transport);
+  connected.push(client);
+  return { client, transport };
+}
+
+async function callJson(client, name) {
+  const result = await client.callTool({ name, arguments: {} });
+  return JSON.parse(result.content[0].text);
+}
+
+describe('bearer check', () => {
+  it('answers /health without authentication and with nothing but the status', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: 'ok' });
+  });
+
+  it('rejects requests without a bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate'), /^Bearer/);
+  });
+
+  it('rejects unknown tokens', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}', headers: { Authorization: 'Bearer not-a-client' } });
+    assert.equal(response.status, 401);
+  });
+
+  it('refuses a session to a client other than the one that opened it', async () => {
+    const { transport } = await connect(CLIENTS[0].token);
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${CLIENTS[1].token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': transport.sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 403);
+  });
+});
+
+describe('clients', () => {
+  it('binds each call to the client whose token opened the session, with its profile', async () => {
+    const alice = await connect(CLIENTS[0].token);
+    const ci = await connect(CLIENTS[2].token);
+
+    assert.deepEqual(await callJson(alice.client, 'whoami'), { name: 'alice', profile: 'eu-prod' });
+    assert.deepEqual(await callJson(ci.client, 'whoami'), { name: 'ci', profile: null });
+  });
+
+  it('adds TRAY_HTTP_AUTH_TOKEN as a client named default', () => {
+    process.env.TRAY_HTTP_AUTH_TOKEN = 'env-token';
+    try {
+      const { clients } = loadHttpOverrides({ http: { clients: [CLIENTS[0]] } }, []);
+      assert.deepEqual(clients.map((client) => [client.name, client.profile]), [['alice', 'eu-prod'], ['default', undefined]]);
+    } finally {
+      delete process.env.TRAY_HTTP_AUTH_TOKEN;
+    }
+  });
+
+  it('shows clients mapped to a profile only the exports they saved', async () => {
+    const alice = await connect(CLIENTS[0].token);
+    const bob = await connect(CLIENTS[1].token);
+    const ci = await connect(CLIENTS[2].token);
+    await callJson(alice.client, 'save-export');
+    await callJson(bob.client, 'save-export');
+
+    assert.deepEqual(await callJson(alice.client, 'list-exports'), ['alice']);
+    assert.deepEqual(await callJson(bob.client, 'list-exports'), ['bob']);
+    // Clients without a profile share the server's, and see everything
+    assert.deepEqual((await callJson(ci.client, 'list-exports')).sort(), ['alice', 'bob']);
+  });
+});
@@ -0,0 +1,97 @@
+// Matching import authentication requirements to the target's authentications
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planImportMappings } from '../dist/mappings.js';
+
+const slack = (version) => ({ name: 'slack', version });
+
+describe('planImportMappings', () => {
+  it('matches the authentication with the same service, scopes and name', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Slack Prod', service: slack(2), scopes: ['chat:write'] }],
+      [
+        { id: 'a1', name: 'Slack Prod', service: slack(2), scopes: ['chat:write'] },
+        { id: 'a2', name: 'Slack Staging', service: slack(2), scopes: [] },
+      ]
+    );
+
+    assert.equal(plan.matches[0].status, 'matched');
+    assert.equal(plan.matches[0].authId, 'a1');
+    assert.equal(plan.matches[0].confidence, 1);
+    assert.deepEqual(plan.authenticationResolution, [{ authExportId: 'x1', authId: 'a1' }]);
+    assert.deepEqual(plan.serviceMapping, []);
+    assert.equal(plan.unresolved, 0);
+  });
+
+  it('adds a service mapping when the match is for another version of the service', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Slack', service: slack(2) }],
+      [{ id: 'a1', name: 'Slack', service: slack(3) }]
+    );
+
+    assert.equal(plan.matches[0].status, 'matched');
+    assert.deepEqual(plan.serviceMapping, [{ source: { name: 'slack', version: '2' }, target: { name: 'slack', version: '3' } }]);
+  });
+
+  it('keeps the authentication Tray already resolved', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Slack', service: slack(2), resolvedAuthentication: { id: 'a9', title: 'Chosen' } }],
+      [{ id: 'a1', name: 'Slack', service: slack(2) }]
+    );
+
+    assert.deepEqual(plan.authenticationResolution, [{ authExportId: 'x1', authId: 'a9' }]);
+    assert.deepEqual(plan.matches[0].reasons, ['resolved by Tray']);
+  });
+
+  it('reports two equally good candidates as ambiguous and leaves them out of the resolution', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Slack', service: slack(2), scopes: ['chat:write'] }],
+      [
+        { id: 'a1', name: 'Slack', service: slack(2), scopes: ['chat:write'] },
+        { id: 'a2', name: 'Slack', service: slack(2), scopes: ['chat:write'] },
+      ]
+    );
+    const [match] = plan.matches;
+
+    assert.equal(match.status, 'ambiguous');
+    assert.equal(match.authId, undefined);
+    assert.deepEqual(match.candidates.map((candidate) => candidate.authId).sort(), ['a1', 'a2']);
+    assert.match(match.reasons[0], /match about equally well/);
+    assert.deepEqual(plan.authenticationResolution, []);
+    assert.equal(plan.unresolved, 1);
+  });
+
+  it('leaves requirements unresolved when no authentication is for the service', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Slack', service: slack(2) }],
+      [{ id: 'a1', name: 'Slack', service: { name: 'salesforce', version: 1 } }]
+    );
+    const [match] = plan.matches;
+
+    assert.equal(match.status, 'unresolved');
+    assert.equal(match.confidence, 0);
+    assert.deepEqual(match.candidates, []);
+    assert.deepEqual(match.reasons, ['no authentication for this service in the target']);
+    assert.equal(plan.unresolved, 1);
+  });
+
+  it('leaves requirements unresolved when the best candidate scores below the threshold', () => {
+    const plan = planImportMappings(
+      [{ authExportId: 'x1', title: 'Salesforce' }],
+      [{ id: 'a1', name: 'Salesforce Sandbox' }]
+    );
+    const [match] = plan.matches;
+
+    assert.equal(match.status, 'unresolved');
+    assert.equal(match.candidates[0].authId, 'a1');
+    assert.ok(match.confidence > 0 && match.confidence < 0.6);
+    assert.deepEqual(match.reasons, ['best candidate scores below 0.6']);
+
+    assert.equal(planImportMappings([{ authExportId: 'x1', title: 'Salesforce' }], [{ id: 'a1', name: 'Salesforce Sandbox' }], 0.5).matches[0].status, 'matched');
+  });
+
+  it('ignores authentications of unknown service with a dissimilar name', () => {
+    const plan = planImportMappings([{ authExportId: 'x1', title: 'Salesforce' }], [{ id: 'a1', name: 'Jira' }]);
+    assert.deepEqual(plan.matches[0].candidates, []);
+  });
+});
@@ -0,0 +1,59 @@
+// Fetch-all pagination limits, against a local mock list endpoint
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { configureRequestPolicy } from '../dist/client.js';
+import { fetchTrayList } from '../dist/pagination.js';
+
+// 25 items served by offset cursors; `greedy` ignores the limit and always returns 10
+const ITEMS = Array.from({ length: 25 }, (_, index) => ({ id: `item-${index}` }));
+let requestedLimits = [];
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const offset = Number(url.searchParams.get('cursor') || 0);
+  const limit = url.pathname === '/greedy' ? 10 : Number(url.searchParams.get('limit'));
+  requestedLimits.push(Number(url.searchParams.get('limit')));
+  const elements = ITEMS.slice(offset, offset + limit);
+  const next = offset + elements.length;
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ elements, cursor: next < ITEMS.length ? String(next) : undefined, hasMore: next < ITEMS.length }));
+});
+
+before(async () => {
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  process.env.TRAY_API_BASE_URL = `http://127.0.0.1:${server.address().port}`;
+  configureRequestPolicy({ rateLimitPerSecond: 0 });
+});
+
+after(() => {
+  delete process.env.TRAY_API_BASE_URL;
+  server.close();
+});
+
+describe('fetchTrayList with all', () => {
+  it('stops at maxItems mid-page and returns a cursor that continues right after', async () => {
+    requestedLimits = [];
+    const first = await fetchTrayList('/list', 'token', { region: 'us', limit: 10, all: true, maxItems: 15 });
+
+    assert.equal(first.elements.length, 15);
+    assert.deepEqual(requestedLimits, [10, 5]);
+    assert.equal(first.truncated, true);
+    assert.equal(first.cursor, '15');
+
+    const rest = await fetchTrayList('/list', 'token', { region: 'us', limit: 10, all: true, cursor: first.cursor });
+    assert.deepEqual([...first.elements, ...rest.elements], ITEMS);
+  });
+
+  it('never returns more than maxItems when Tray ignores the limit', async () => {
+    const result = await fetchTrayList('/greedy', 'token', { region: 'us', limit: 10, all: true, maxItems: 15 });
+    assert.equal(result.elements.length, 15);
+  });
+
+  it('fetches everything when it fits', async () => {
+    const result = await fetchTrayList('/list', 'token', { region: 'us', limit: 10, all: true, maxItems: 100 });
+    assert.equal(result.elements.length, 25);
+    assert.equal(result.truncated, false);
+    assert.equal(result.cursor, undefined);
+  });
+});
@@ -0,0 +1,77 @@
+// Snapshot store: saving exports, loading them back, and refusing files outside the store
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { configureSnapshotStore, findSnapshot, listSnapshots, loadSnapshot, saveSnapshot, snapshotUri } from '../dist/snapshots.js';
+
+const EXPORT = { project: { name: 'Billing' }, workflows: [{ id: 'wf1', name: 'Sync', steps: [] }], config: { apiUrl: 'https://x.test' } };
+
+let directory;
+let outside;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'tray-snapshots-'));
+  outside = await mkdtemp(join(tmpdir(), 'tray-outside-'));
+  configureSnapshotStore({ directory });
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+  await rm(outside, { recursive: true, force: true });
+});
+
+describe('saving and loading', () => {
+  it('saves an export with a manifest entry and loads it back by URI', async () => {
+    const saved = await saveSnapshot(EXPORT, { projectId: 'p1', versionNumber: '3', region: 'eu' });
+
+    assert.match(saved.id, /^p1\/3\/\d{4}-\d{2}-\d{2}T/);
+    assert.equal(saved.projectName, 'Billing');
+    assert.equal(saved.workflows, 1);
+    assert.equal((await stat(saved.path)).mode & 0o777, 0o600);
+
+    const manifest = JSON.parse(await readFile(join(directory, 'manifest.json'), 'utf-8'));
+    assert.deepEqual(manifest.snapshots.map((entry) => entry.id), [saved.id]);
+
+    const loaded = await loadSnapshot(snapshotUri(saved));
+    assert.deepEqual(loaded.data, EXPORT);
+    assert.equal(loaded.path, saved.path);
+  });
+
+  it('resolves "latest" to the newest export of a version', async () => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const newer = await saveSnapshot({ ...EXPORT, workflows: [] }, { projectId: 'p1', versionNumber: '3', region: 'eu' });
+
+    assert.equal((await findSnapshot('p1/3/latest')).id, newer.id);
+    assert.deepEqual((await loadSnapshot('tray://snapshots/p1/3/latest')).data.workflows, []);
+    assert.equal((await listSnapshots({ projectId: 'p1' }))[0].id, newer.id);
+  });
+
+  it('loads by a path relative to the store, or an absolute path inside it', async () => {
+    const [entry] = await listSnapshots();
+    assert.equal((await loadSnapshot(entry.file)).path, join(directory, entry.file));
+    assert.equal((await loadSnapshot(join(directory, entry.file))).path, join(directory, entry.file));
+  });
+
+  it('reports unknown URIs', async () => {
+    await assert.rejects(loadSnapshot('tray://snapshots/p9/1/latest'), /No saved export tray:\/\/snapshots\/p9\/1\/latest/);
+  });
+});
+
+describe('path confinement', () => {
+  it('refuses absolute paths outside the store', async () => {
+    const file = join(outside, 'export.json');
+    await writeFile(file, JSON.stringify(EXPORT));
+    await assert.rejects(loadSnapshot(file), /is outside/);
+  });
+
+  it('refuses paths that climb out of the store', async () => {
+    await assert.rejects(loadSnapshot('../etc/passwd'), /is outside/);
+    await assert.rejects(loadSnapshot('p1/../../export.json'), /is outside/);
+  });
+
+  it('refuses the store directory itself', async () => {
+    await assert.rejects(loadSnapshot('.'), /is outside/);
+  });
+});
@@ -0,0 +1,60 @@
+// Connector input validation against Tray operation schemas
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateOperationInput } from '../dist/validation.js';
+
+const SCHEMA = {
+  $schema: 'http://json-schema.org/draft-04/schema#',
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'archived'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+describe('validateOperationInput', () => {
+  it('accepts matching input', () => {
+    assert.deepEqual(validateOperationInput(SCHEMA, { email: 'a@example.com', tags: ['x'] }), { valid: true, checked: true, issues: [] });
+  });
+
+  it('reports missing fields, wrong types and enum values by path', () => {
+    const result = validateOperationInput(SCHEMA, { status: 'deleted', tags: ['x', 2] });
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.issues.map((issue) => [issue.path, issue.kind]), [
+      ['input.email', 'missing'],
+      ['input.status', 'enum'],
+      ['input.tags[1]', 'type'],
+    ]);
+  });
+
+  it('warns about undeclared keys and suggests the one that was meant', () => {
+    const result = validateOperationInput(SCHEMA, { email: 'a@example.com', emial: 'b@example.com' });
+
+    assert.equal(result.valid, true);
+    assert.equal(result.issues[0].severity, 'warning');
+    assert.match(result.issues[0].message, /Did you mean "email"/);
+  });
+
+  it('rejects undeclared keys with a suggestion when the schema forbids them', () => {
+    const strict = { ...SCHEMA, additionalProperties: false };
+    const result = validateOperationInput(strict, { email: 'a@example.com', staus: 'active' });
+
+    assert.equal(result.valid, false);
+    assert.equal(result.issues[0].kind, 'unknown');
+    assert.match(result.issues[0].message, /Did you mean "status"/);
+  });
+
+  it('gives the same answers when a schema is reused', () => {
+    for (let i = 0; i < 3; i++) {
+      assert.equal(validateOperationInput(SCHEMA, { email: 1 }).valid, false);
+      assert.equal(validateOperationInput(SCHEMA, { email: 'a@example.com' }).valid, true);
+    }
+  });
+
+  it('skips checking when there is no schema', () => {
+    assert.deepEqual(validateOperationInput(undefined, { anything: true }), { valid: true, checked: false, issues: [] });
+  });
+});
@@ -0,0 +1,128 @@
+// Encrypted token vault: round trips with a passphrase or key file, and the errors when it cannot be opened
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { VaultLockedError, createVaultKeyFile, decryptVault, encryptVault, readVaultKeySource, unlockVault } from '../dist/vault.js';
+
+const SECRETS = { profiles: { default: { token: 'tray-token-1' }, eu: { token: 'tray-token-2' } } };
+const PASSPHRASE = { keySource: 'passphrase' };
+
+let directory;
+
+before(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'tray-vault-'));
+});
+
+afterEach(() => {
+  unlockVault('');
+  delete process.env.TRAY_VAULT_PASSPHRASE;
+  delete process.env.TRAY_VAULT_KEY_FILE;
+});
+
+after(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('passphrase vaults', () => {
+  it('decrypt to what was encrypted, and store no plaintext', async () => {
+    const path = join(directory, 'passphrase.vault');
+    unlockVault('correct horse');
+    await encryptVault(path, SECRETS, PASSPHRASE);
+
+    const content = await readFile(path, 'utf-8');
+    assert.ok(!content.includes('tray-token-1'));
+    assert.equal((await stat(path)).mode & 0o777, 0o600);
+    assert.deepEqual(await readVaultKeySource(path), PASSPHRASE);
+    assert.deepEqual(await decryptVault(path), SECRETS);
+  });
+
+  it('use a fresh salt and IV on every write', async () => {
+    const path = join(directory, 'rewrite.vault');
+    unlockVault('correct horse');
+    await encryptVault(path, SECRETS, PASSPHRASE);
+    const first = JSON.parse(await readFile(path, 'utf-8'));
+    await encryptVault(path, SECRETS, PASSPHRASE);
+    const second = JSON.parse(await readFile(path, 'utf-8'));
+
+    assert.notEqual(first.salt, second.salt);
+    assert.notEqual(first.iv, second.iv);
+  });
+
+  it('read the passphrase from TRAY_VAULT_PASSPHRASE', async () => {
+    const path = join(directory, 'env.vault');
+    process.env.TRAY_VAULT_PASSPHRASE = 'from the environment';
+    await encryptVault(path, SECRETS, PASSPHRASE);
+    assert.deepEqual(await decryptVault(path), SECRETS);
+  });
+
+  it('refuse the wrong passphrase', async () => {
+    const path = join(directory, 'wrong.vault');
+    unlockVault('correct horse');
+    await encryptVault(path, SECRETS, PASSPHRASE);
+
+    unlockVault('battery staple');
+    await assert.rejects(decryptVault(path), (error) => {
+      assert.ok(error instanceof VaultLockedError);
+      assert.match(error.message, /the passphrase is wrong or the file was modified/);
+      return true;
+    });
+  });
+
+  it('refuse a modified file', async () => {
+    const path = join(directory, 'modified.vault');
+    unlockVault('correct horse');
+    await encryptVault(path, SECRETS, PASSPHRASE);
+    const vault = JSON.parse(await readFile(path, 'utf-8'));
+    const data = Buffer.from(vault.data, 'base64');
+    data[0] ^= 1;
+    await writeFile(path, JSON.stringify({ ...vault, data: data.toString('base64') }));
+
+    await assert.rejects(decryptVault(path), /is wrong or the file was modified/);
+  });
+
+  it('are locked without a passphrase', async () => {
+    const path = join(directory, 'locked.vault');
+    unlockVault('correct horse');
+    await encryptVault(path, SECRETS, PASSPHRASE);
+
+    unlockVault('');
+    await assert.rejects(decryptVault(path), (error) => error instanceof VaultLockedError && /Set TRAY_VAULT_PASSPHRASE/.test(error.message));
+  });
+});
+
+describe('key file vaults', () => {
+  it('decrypt with the key file recorded in the vault', async () => {
+    const path = join(directory, 'keyfile.vault');
+    const keyFile = join(directory, 'vault.key');
+    await createVaultKeyFile(keyFile);
+    assert.match(await readFile(keyFile, 'utf-8'), /^[0-9a-f]{64}\n$/);
+
+    await encryptVault(path, SECRETS, { keySource: 'keyFile', keyFile });
+    assert.deepEqual(await readVaultKeySource(path), { keySource: 'keyFile', keyFile });
+    assert.deepEqual(await decryptVault(path), SECRETS);
+  });
+
+  it('refuse a different key file', async () => {
+    const path = join(directory, 'other-key.vault');
+    const keyFile = join(directory, 'first.key');
+    const otherKeyFile = join(directory, 'second.key');
+    await createVaultKeyFile(keyFile);
+    await createVaultKeyFile(otherKeyFile);
+    await encryptVault(path, SECRETS, { keySource: 'keyFile', keyFile });
+
+    process.env.TRAY_VAULT_KEY_FILE = otherKeyFile;
+    await assert.rejects(decryptVault(path), /the key file is wrong or the file was modified/);
+  });
+
+  it('are locked when the key file is missing', async () => {
+    const path = join(directory, 'missing-key.vault');
+    const keyFile = join(directory, 'gone.key');
+    await createVaultKeyFile(keyFile);
+    await encryptVault(path, SECRETS, { keySource: 'keyFile', keyFile });
+    await rm(keyFile);
+
+    await assert.rejects(decryptVault(path), (error) => error instanceof VaultLockedError && error.message.includes(keyFile));
+  });
+});